@@ -0,0 +1,54 @@
+import { send, sendToTab } from '../messaging/client';
+import type { DatabaseChanges } from '../db/changes';
+import type { ChangeSet } from '../types';
+import { WATCH_URL_PATTERNS } from './commands';
+
+/**
+ * Change broadcasts (live sync between the panel, popup and options pages)
+ * One-off messages rather than long-lived ports: ports keep nothing alive
+ * in MV3 and are dropped whenever the service worker goes idle, while a
+ * message reaches whichever pages happen to be open at the time.
+ */
+
+// Larger change sets (imports, bulk merges) are sent as "reload" instead
+const MAX_BROADCAST_RECORDS = 500;
+
+/**
+ * Announce committed changes to extension pages and YouTube tabs
+ * Receivers that aren't open are skipped; delivery is best effort.
+ */
+export async function broadcastChanges(changes: DatabaseChanges): Promise<void> {
+  const phrases = limitChangeSet(changes.phrases);
+  const groups = limitChangeSet(changes.groups);
+  const deliveries: Promise<unknown>[] = [];
+
+  if (!isEmpty(groups)) {
+    deliveries.push(send('GROUP_CHANGED', groups));
+  }
+
+  if (!isEmpty(phrases)) {
+    deliveries.push(send('PHRASE_CHANGED', phrases));
+
+    // Content scripts don't receive runtime messages; address each tab
+    const tabs = await chrome.tabs.query({ url: WATCH_URL_PATTERNS });
+    for (const tab of tabs) {
+      if (tab.id !== undefined) {
+        deliveries.push(sendToTab(tab.id, 'PHRASE_CHANGED', phrases));
+      }
+    }
+  }
+
+  // Rejections only mean nobody was listening
+  await Promise.allSettled(deliveries);
+}
+
+function limitChangeSet<T>(changeSet: ChangeSet<T>): ChangeSet<T> {
+  if (changeSet.upserted.length + changeSet.deletedIds.length <= MAX_BROADCAST_RECORDS) {
+    return changeSet;
+  }
+  return { upserted: [], createdIds: [], deletedIds: [], reload: true };
+}
+
+function isEmpty(changeSet: ChangeSet<unknown>): boolean {
+  return !changeSet.reload && changeSet.upserted.length === 0 && changeSet.deletedIds.length === 0;
+}
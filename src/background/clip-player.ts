@@ -0,0 +1,111 @@
+import { sendToTab } from '../messaging/client';
+import type { MessageResponse, PlayClipPayload } from '../types';
+
+/**
+ * Clip player for review sessions
+ * Reuses a single YouTube popup window and drives its content script over messaging,
+ * instead of opening a new tab per phrase.
+ */
+
+const PLAYER_TAB_KEY = 'reviewPlayerTabId';
+const PLAYER_WINDOW_SIZE = { width: 960, height: 600 };
+
+/**
+ * Build the watch URL for a clip
+ */
+function buildWatchUrl(clip: PlayClipPayload): string {
+  return `https://www.youtube.com/watch?v=${clip.videoId}&t=${Math.floor(clip.startTime)}s`;
+}
+
+/**
+ * Get the player tab if it is still open
+ */
+async function getPlayerTab(): Promise<chrome.tabs.Tab | null> {
+  const result = await chrome.storage.session.get(PLAYER_TAB_KEY);
+  const tabId = result[PLAYER_TAB_KEY] as number | undefined;
+  if (tabId === undefined) return null;
+
+  try {
+    return await chrome.tabs.get(tabId);
+  } catch {
+    // Window was closed by the user
+    await chrome.storage.session.remove(PLAYER_TAB_KEY);
+    return null;
+  }
+}
+
+/**
+ * Extract the video ID from a tab URL
+ */
+function getTabVideoId(tab: chrome.tabs.Tab): string | null {
+  if (!tab.url) return null;
+  try {
+    return new URL(tab.url).searchParams.get('v');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether the content script in the player tab handled a message
+ */
+async function isHandled(request: Promise<MessageResponse | undefined>): Promise<boolean> {
+  try {
+    const response = await request;
+    return response?.success === true;
+  } catch {
+    // Content script not ready (page still loading)
+    return false;
+  }
+}
+
+/**
+ * Play a clip in the reusable player window
+ */
+export async function playClip(clip: PlayClipPayload): Promise<void> {
+  const tab = await getPlayerTab();
+
+  // Same video already open - just move the loop
+  if (tab?.id !== undefined && getTabVideoId(tab) === clip.videoId) {
+    const handled = await isHandled(sendToTab(tab.id, 'PLAY_CLIP', clip));
+    if (handled) return;
+  }
+
+  // Otherwise navigate and let the content script pick up the pending loop
+  await chrome.storage.local.set({
+    pendingLoop: {
+      videoId: clip.videoId,
+      startTime: clip.startTime,
+      endTime: clip.endTime,
+      timestamp: Date.now(),
+    },
+  });
+
+  const url = buildWatchUrl(clip);
+
+  if (tab?.id !== undefined) {
+    await chrome.tabs.update(tab.id, { url });
+    return;
+  }
+
+  const playerWindow = await chrome.windows.create({
+    url,
+    type: 'popup',
+    ...PLAYER_WINDOW_SIZE,
+  });
+
+  const newTabId = playerWindow?.tabs?.[0]?.id;
+  if (newTabId !== undefined) {
+    await chrome.storage.session.set({ [PLAYER_TAB_KEY]: newTabId });
+  }
+}
+
+/**
+ * Stop the loop in the player window (if open)
+ */
+export async function stopClip(): Promise<void> {
+  const tab = await getPlayerTab();
+  if (tab?.id !== undefined) {
+    await isHandled(sendToTab(tab.id, 'STOP_CLIP'));
+  }
+}
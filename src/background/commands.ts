@@ -0,0 +1,60 @@
+import { sendToTab } from '../messaging/client';
+import { COMMAND_ACTIONS } from '../messaging/payloads';
+import type { CommandAction } from '../types';
+
+/**
+ * chrome.commands relay
+ * Global shortcuts (chrome://extensions/shortcuts) work even when the page
+ * doesn't have focus; the command is forwarded to a YouTube watch tab.
+ */
+
+export const WATCH_URL_PATTERNS = ['https://www.youtube.com/watch*', 'https://youtube.com/watch*'];
+
+function isCommandAction(command: string): command is CommandAction {
+  return (COMMAND_ACTIONS as readonly string[]).includes(command);
+}
+
+/**
+ * Pick the tab to control: the active tab if it is a watch page, otherwise
+ * the active watch tab of any window, otherwise the most recently used one
+ */
+async function findTargetTab(activeTab?: chrome.tabs.Tab): Promise<chrome.tabs.Tab | null> {
+  const watchTabs = await chrome.tabs.query({ url: WATCH_URL_PATTERNS });
+  if (watchTabs.length === 0) return null;
+
+  const current = watchTabs.find(tab => tab.id === activeTab?.id);
+  if (current) return current;
+
+  const active = watchTabs.filter(tab => tab.active);
+  const candidates = active.length > 0 ? active : watchTabs;
+
+  return candidates.reduce((latest, tab) =>
+    (tab.lastAccessed ?? 0) > (latest.lastAccessed ?? 0) ? tab : latest
+  );
+}
+
+/**
+ * Forward a chrome.commands command to the content script
+ */
+export async function relayCommand(command: string, activeTab?: chrome.tabs.Tab): Promise<void> {
+  if (!isCommandAction(command)) {
+    console.warn('[Subtitle Loop] Unknown command:', command);
+    return;
+  }
+
+  const tab = await findTargetTab(activeTab);
+  if (tab?.id === undefined) {
+    console.log('[Subtitle Loop] No YouTube video tab for command:', command);
+    return;
+  }
+
+  try {
+    const response = await sendToTab(tab.id, 'RUN_COMMAND', { action: command });
+    if (!response?.success) {
+      console.warn('[Subtitle Loop] Command not handled:', command, response?.error);
+    }
+  } catch {
+    // Content script not loaded (tab opened before the extension was installed)
+    console.warn('[Subtitle Loop] Could not reach content script for command:', command);
+  }
+}
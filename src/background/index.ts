@@ -1,238 +1,176 @@
 import {
-  savePhrase,
-  getPhrases,
+  queryPhrases,
   updatePhrase,
   deletePhrase,
   getGroups,
   createGroup,
   updateGroup,
   deleteGroup,
+  getTags,
+  updateTags,
   getStats,
+  searchPhrases,
+  getVideos,
+  getDuePhrases,
+  recordReview,
   checkDatabaseAvailability,
-  isDatabaseReady,
-  getDatabaseError,
 } from '../db';
-import type {
-  Message,
-  MessageResponse,
-  SavePhrasePayload,
-  GetPhrasesPayload,
-} from '../types';
+import { findDuplicateClusters, mergePhrases } from '../db/duplicates';
+import { exportLibrary, importLibrary } from '../db/library';
+import { watchChanges } from '../db/changes';
+import { getPhraseStorage, getStorageMode, getStorageStatus } from '../db/storage';
+import { getStorageInfo, bulkDeletePhrases, cleanOrphanedGroups } from '../db/housekeeping';
+import { parseUpdatePhrasePayload } from '../db/validation';
+import { createDispatcher, MessageError } from '../messaging/dispatcher';
+import {
+  parseSavePhrasePayload,
+  parseGetPhrasesPayload,
+  parseQueryPhrasesPayload,
+  parseSearchPhrasesPayload,
+  parseDeletePhrasePayload,
+  parseMergePhrasesPayload,
+  parseBulkDeletePhrasesPayload,
+  parseCreateGroupPayload,
+  parseUpdateGroupPayload,
+  parseDeleteGroupPayload,
+  parseUpdateTagsPayload,
+  parseGetDuePhrasesPayload,
+  parseRecordReviewPayload,
+  parsePlayClipPayload,
+  parseImportLibraryPayload,
+} from '../messaging/payloads';
+import { playClip, stopClip } from './clip-player';
+import { relayCommand } from './commands';
+import { broadcastChanges } from './broadcast';
+import type { MessageType } from '../types';
 
 console.log('[Subtitle Loop] Background service worker loaded');
 
-// Initialize database availability check
-checkDatabaseAvailability().then((isAvailable) => {
+// Open the database (upgrading it if needed); messages wait for this
+const databaseChecked = checkDatabaseAvailability().then(async (isAvailable) => {
   if (!isAvailable) {
-    console.error('[Subtitle Loop] Database initialization failed - save features will be disabled');
+    console.error('[Subtitle Loop] Database initialization failed - saving to fallback storage');
+    return;
   }
+  // Move anything saved while IndexedDB was unavailable
+  await getPhraseStorage();
 });
 
-/**
- * Message handler for content scripts and popup
- */
-chrome.runtime.onMessage.addListener((message: Message, _sender, sendResponse) => {
-  console.log('[Subtitle Loop] Message received:', message.type);
-
-  // Handle message asynchronously
-  handleMessage(message)
-    .then((response) => {
-      sendResponse(response);
-    })
-    .catch((error) => {
-      console.error('[Subtitle Loop] Message handler error:', error);
-      sendResponse({
-        success: false,
-        error: error.message || 'Unknown error',
-      });
-    });
-
-  // Return true to indicate async response
-  return true;
+// Push every committed phrase/group change to open pages and tabs
+watchChanges((changes) => {
+  broadcastChanges(changes).catch((error) => {
+    console.warn('[Subtitle Loop] Change broadcast failed:', error);
+  });
 });
 
-/**
- * Handle incoming messages
- */
-async function handleMessage(message: Message): Promise<MessageResponse> {
-  switch (message.type) {
-    case 'DB_STATUS':
-      return await handleDatabaseStatus();
-
-    case 'SAVE_PHRASE':
-      return await handleSavePhrase(message.payload as SavePhrasePayload);
-
-    case 'GET_PHRASES':
-      return await handleGetPhrases(message.payload as GetPhrasesPayload);
-
-    case 'UPDATE_PHRASE':
-      return await handleUpdatePhrase(message.payload);
-
-    case 'DELETE_PHRASE':
-      return await handleDeletePhrase(message.payload);
-
-    case 'GET_GROUPS':
-      return await handleGetGroups();
-
-    case 'CREATE_GROUP':
-      return await handleCreateGroup(message.payload);
-
-    case 'UPDATE_GROUP':
-      return await handleUpdateGroup(message.payload);
-
-    case 'DELETE_GROUP':
-      return await handleDeleteGroup(message.payload);
-
-    case 'GET_STATS':
-      return await handleGetStats();
-
-    default:
-      return {
-        success: false,
-        error: `Unknown message type: ${message.type}`,
-      };
-  }
-}
-
 // ============================================================
-// MESSAGE HANDLERS
+// MESSAGE ROUTES
 // ============================================================
 
-async function handleDatabaseStatus(): Promise<MessageResponse> {
-  return {
-    success: true,
-    data: {
-      isAvailable: isDatabaseReady(),
-      error: getDatabaseError(),
-    },
-  };
-}
-
-async function handleSavePhrase(
-  payload: SavePhrasePayload
-): Promise<MessageResponse> {
-  try {
-    const phrase = await savePhrase(payload);
-    return {
-      success: true,
-      data: phrase,
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to save phrase',
-    };
-  }
-}
+/** Messages that work without IndexedDB (fallback storage or no storage) */
+const FALLBACK_ROUTES: ReadonlySet<MessageType> = new Set<MessageType>([
+  'DB_STATUS',
+  'SAVE_PHRASE',
+  'GET_PHRASES',
+  'PLAY_CLIP',
+  'STOP_CLIP',
+]);
 
-async function handleGetPhrases(
-  payload?: GetPhrasesPayload
-): Promise<MessageResponse> {
-  try {
-    const phrases = await getPhrases(payload);
-    return {
-      success: true,
-      data: phrases,
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to get phrases',
-    };
-  }
-}
-
-async function handleUpdatePhrase(payload: any): Promise<MessageResponse> {
-  try {
-    const { id, updates } = payload;
-    await updatePhrase(id, updates);
-    return { success: true };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to update phrase',
-    };
-  }
-}
-
-async function handleDeletePhrase(payload: any): Promise<MessageResponse> {
-  try {
-    await deletePhrase(payload.id);
-    return { success: true };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to delete phrase',
-    };
-  }
-}
+/**
+ * Refuse everything else in fallback mode (after a retry) with a code the
+ * pages can explain, instead of Dexie's DatabaseClosedError
+ */
+async function requireDatabase(type: MessageType): Promise<void> {
+  if (FALLBACK_ROUTES.has(type) || getStorageMode() === 'indexeddb') return;
 
-async function handleGetGroups(): Promise<MessageResponse> {
-  try {
-    const groups = await getGroups();
-    return {
-      success: true,
-      data: groups,
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to get groups',
-    };
+  if ((await getPhraseStorage()).mode === 'fallback') {
+    throw new MessageError('STORAGE_DEGRADED', `${type} needs IndexedDB, which is unavailable`);
   }
 }
 
-async function handleCreateGroup(payload: any): Promise<MessageResponse> {
-  try {
-    const group = await createGroup(payload);
-    return {
-      success: true,
-      data: group,
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to create group',
-    };
-  }
-}
+const dispatch = createDispatcher({
+  DB_STATUS: { handle: getStorageStatus },
+
+  // Phrases
+  // Save and list work in fallback mode too (see db/storage)
+  SAVE_PHRASE: {
+    validate: parseSavePhrasePayload,
+    handle: async (payload) => (await getPhraseStorage()).savePhrase(payload),
+  },
+  GET_PHRASES: {
+    validate: parseGetPhrasesPayload,
+    handle: async (payload) => (await getPhraseStorage()).getPhrases(payload),
+  },
+  QUERY_PHRASES: { validate: parseQueryPhrasesPayload, handle: queryPhrases },
+  SEARCH_PHRASES: { validate: parseSearchPhrasesPayload, handle: searchPhrases },
+  GET_VIDEOS: { handle: getVideos },
+  UPDATE_PHRASE: {
+    validate: parseUpdatePhrasePayload,
+    handle: ({ id, updates }) => updatePhrase(id, updates),
+  },
+  DELETE_PHRASE: { validate: parseDeletePhrasePayload, handle: ({ id }) => deletePhrase(id) },
+  FIND_DUPLICATES: { handle: findDuplicateClusters },
+  MERGE_PHRASES: {
+    validate: parseMergePhrasesPayload,
+    handle: ({ targetId, sourceIds }) => mergePhrases(targetId, sourceIds),
+  },
+
+  // Groups & tags
+  GET_GROUPS: { handle: getGroups },
+  CREATE_GROUP: { validate: parseCreateGroupPayload, handle: createGroup },
+  UPDATE_GROUP: {
+    validate: parseUpdateGroupPayload,
+    handle: ({ id, updates }) => updateGroup(id, updates),
+  },
+  DELETE_GROUP: { validate: parseDeleteGroupPayload, handle: ({ id }) => deleteGroup(id) },
+  GET_TAGS: { handle: getTags },
+  UPDATE_TAGS: {
+    validate: parseUpdateTagsPayload,
+    handle: (payload) => updateTags(payload.phraseIds, payload),
+  },
+  GET_STATS: { handle: getStats },
+
+  // Housekeeping
+  GET_STORAGE_INFO: { handle: getStorageInfo },
+  BULK_DELETE_PHRASES: { validate: parseBulkDeletePhrasesPayload, handle: bulkDeletePhrases },
+  CLEAN_ORPHANED_GROUPS: { handle: cleanOrphanedGroups },
+
+  // Review
+  GET_DUE_PHRASES: { validate: parseGetDuePhrasesPayload, handle: (payload) => getDuePhrases(payload?.limit) },
+  RECORD_REVIEW: {
+    validate: parseRecordReviewPayload,
+    handle: ({ id, grade }) => recordReview(id, grade),
+  },
+  PLAY_CLIP: { validate: parsePlayClipPayload, handle: playClip },
+  STOP_CLIP: { handle: stopClip },
+
+  // Library
+  EXPORT_LIBRARY: { handle: exportLibrary },
+  IMPORT_LIBRARY: {
+    validate: parseImportLibraryPayload,
+    handle: ({ bundle, strategy }) => importLibrary(bundle, strategy),
+  },
+}, { guard: requireDatabase });
 
-async function handleUpdateGroup(payload: any): Promise<MessageResponse> {
-  try {
-    const { id, updates } = payload;
-    await updateGroup(id, updates);
-    return { success: true };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to update group',
-    };
-  }
-}
+/**
+ * Message handler for content scripts, popup and options pages
+ */
+chrome.runtime.onMessage.addListener((message: unknown, _sender, sendResponse) => {
+  databaseChecked.then(() => dispatch(message)).then((response) => {
+    if (!response.success) {
+      console.warn('[Subtitle Loop] Message failed:', response.code, response.error);
+    }
+    sendResponse(response);
+  });
 
-async function handleDeleteGroup(payload: any): Promise<MessageResponse> {
-  try {
-    await deleteGroup(payload.id);
-    return { success: true };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to delete group',
-    };
-  }
-}
+  // Return true to indicate async response
+  return true;
+});
 
-async function handleGetStats(): Promise<MessageResponse> {
-  try {
-    const stats = await getStats();
-    return {
-      success: true,
-      data: stats,
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to get stats',
-    };
-  }
-}
+/**
+ * Global shortcuts (chrome.commands) - relayed to the YouTube tab
+ */
+chrome.commands.onCommand.addListener((command, tab) => {
+  console.log('[Subtitle Loop] Command received:', command);
+  relayCommand(command, tab);
+});
@@ -0,0 +1,387 @@
+import { CAPTION_CONFIG } from './constants';
+import { resolveSegmentEnds, type PartialSegment } from './transcript';
+import type { TranscriptSegment } from '../types';
+
+/**
+ * Caption provider using YouTube's timedtext data
+ * Reads the caption track list from the player response and parses
+ * json3 (or srv3 XML) captions - no transcript panel needed.
+ */
+
+/**
+ * A caption track listed in the player response
+ */
+export interface CaptionTrack {
+  baseUrl: string;
+  languageCode: string;
+  name: string;
+  /** 'asr' = auto-generated */
+  kind?: string;
+  isTranslatable: boolean;
+}
+
+/**
+ * A language YouTube can auto-translate captions into
+ */
+export interface TranslationLanguage {
+  languageCode: string;
+  name: string;
+}
+
+/**
+ * Caption tracks and translation targets for a video
+ */
+export interface CaptionInfo {
+  tracks: CaptionTrack[];
+  translationLanguages: TranslationLanguage[];
+}
+
+/**
+ * Result of loading the primary captions
+ */
+export interface CaptionLoadResult extends CaptionInfo {
+  primary: CaptionTrack | null;
+  segments: TranscriptSegment[];
+}
+
+interface PlayerResponse {
+  videoDetails?: { videoId?: string };
+  captions?: {
+    playerCaptionsTracklistRenderer?: {
+      captionTracks?: RawCaptionTrack[];
+      translationLanguages?: RawTranslationLanguage[];
+    };
+  };
+}
+
+interface RawText {
+  simpleText?: string;
+  runs?: { text: string }[];
+}
+
+interface RawCaptionTrack {
+  baseUrl: string;
+  languageCode: string;
+  name?: RawText;
+  kind?: string;
+  isTranslatable?: boolean;
+}
+
+interface RawTranslationLanguage {
+  languageCode: string;
+  languageName?: RawText;
+}
+
+interface Json3Event {
+  tStartMs?: number;
+  dDurationMs?: number;
+  aAppend?: number;
+  segs?: { utf8?: string }[];
+}
+
+const PLAYER_RESPONSE_MARKER = 'ytInitialPlayerResponse';
+
+// ============================================================
+// PLAYER RESPONSE
+// ============================================================
+
+/**
+ * Extract the JSON object literal starting at `start` (brace matching, string-aware)
+ */
+function extractJsonObject(source: string, start: number): string | null {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return source.slice(start, i + 1);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse ytInitialPlayerResponse out of a page's script source
+ */
+function parsePlayerResponse(source: string): PlayerResponse | null {
+  const markerIndex = source.indexOf(PLAYER_RESPONSE_MARKER);
+  if (markerIndex === -1) return null;
+
+  const objectStart = source.indexOf('{', markerIndex);
+  if (objectStart === -1) return null;
+
+  const json = extractJsonObject(source, objectStart);
+  if (!json) return null;
+
+  try {
+    return JSON.parse(json) as PlayerResponse;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the player response for a video
+ * Uses the inline script on first load; after SPA navigation the inline
+ * data is stale, so the watch page is fetched instead.
+ */
+async function getPlayerResponse(videoId: string): Promise<PlayerResponse | null> {
+  for (const script of Array.from(document.querySelectorAll('script'))) {
+    const text = script.textContent || '';
+    if (!text.includes(PLAYER_RESPONSE_MARKER)) continue;
+
+    const response = parsePlayerResponse(text);
+    if (response?.videoDetails?.videoId === videoId) {
+      return response;
+    }
+  }
+
+  try {
+    const html = await fetch(`/watch?v=${encodeURIComponent(videoId)}`, {
+      credentials: 'same-origin',
+    }).then(res => res.text());
+    return parsePlayerResponse(html);
+  } catch (error) {
+    console.warn('[Subtitle Loop] Could not fetch player response:', error);
+    return null;
+  }
+}
+
+// ============================================================
+// CAPTION TRACKS
+// ============================================================
+
+function readText(text: RawText | undefined): string | undefined {
+  return text?.simpleText ?? text?.runs?.map(run => run.text).join('');
+}
+
+/**
+ * List caption tracks and auto-translate targets for a video
+ */
+export async function getCaptionInfo(videoId: string): Promise<CaptionInfo> {
+  const response = await getPlayerResponse(videoId);
+  const renderer = response?.captions?.playerCaptionsTracklistRenderer;
+
+  return {
+    tracks: (renderer?.captionTracks ?? []).map(track => ({
+      baseUrl: track.baseUrl,
+      languageCode: track.languageCode,
+      name: readText(track.name) ?? track.languageCode,
+      kind: track.kind,
+      isTranslatable: track.isTranslatable ?? false,
+    })),
+    translationLanguages: (renderer?.translationLanguages ?? []).map(lang => ({
+      languageCode: lang.languageCode,
+      name: readText(lang.languageName) ?? lang.languageCode,
+    })),
+  };
+}
+
+/**
+ * Pick the primary track: preferred language (manual over auto-generated), else first
+ */
+export function pickPrimaryTrack(tracks: CaptionTrack[]): CaptionTrack | null {
+  const preferred = tracks.filter(t => t.languageCode.startsWith(CAPTION_CONFIG.preferredLanguage));
+
+  return (
+    preferred.find(t => t.kind !== 'asr') ||
+    preferred[0] ||
+    tracks.find(t => t.kind !== 'asr') ||
+    tracks[0] ||
+    null
+  );
+}
+
+// ============================================================
+// TIMEDTEXT PARSING
+// ============================================================
+
+/**
+ * Normalize caption text (line breaks inside a cue become spaces)
+ */
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse json3 timedtext
+ */
+export function parseJson3(data: { events?: Json3Event[] }): TranscriptSegment[] {
+  const segments: PartialSegment[] = [];
+
+  for (const event of data.events ?? []) {
+    // Skip style-only events and rolling-caption line breaks
+    if (!event.segs || event.aAppend || event.tStartMs === undefined) continue;
+
+    const text = cleanText(event.segs.map(seg => seg.utf8 ?? '').join(''));
+    if (!text) continue;
+
+    const startTime = event.tStartMs / 1000;
+    segments.push({
+      index: segments.length,
+      startTime,
+      endTime: event.dDurationMs ? startTime + event.dDurationMs / 1000 : undefined,
+      text,
+    });
+  }
+
+  return resolveSegmentEnds(segments);
+}
+
+/**
+ * Parse srv3 (XML) timedtext
+ */
+export function parseSrv3(xml: string): TranscriptSegment[] {
+  const doc = new DOMParser().parseFromString(xml, 'text/xml');
+  const segments: PartialSegment[] = [];
+
+  doc.querySelectorAll('body > p').forEach((p) => {
+    const start = parseInt(p.getAttribute('t') || '', 10);
+    const duration = parseInt(p.getAttribute('d') || '', 10);
+    const text = cleanText(p.textContent || '');
+
+    if (isNaN(start) || !text) return;
+
+    segments.push({
+      index: segments.length,
+      startTime: start / 1000,
+      endTime: duration > 0 ? (start + duration) / 1000 : undefined,
+      text,
+    });
+  });
+
+  return resolveSegmentEnds(segments);
+}
+
+/**
+ * Fetch and parse a caption track
+ * @param translateTo - target language for YouTube's auto-translation
+ */
+export async function fetchTrackSegments(
+  track: CaptionTrack,
+  translateTo?: string
+): Promise<TranscriptSegment[]> {
+  const url = new URL(track.baseUrl, window.location.origin);
+  url.searchParams.set('fmt', 'json3');
+  if (translateTo) {
+    url.searchParams.set('tlang', translateTo);
+  }
+
+  const body = await fetch(url.toString(), { credentials: 'same-origin' }).then(res => res.text());
+  if (!body.trim()) {
+    return [];
+  }
+
+  try {
+    return parseJson3(JSON.parse(body));
+  } catch {
+    // Some tracks ignore fmt=json3 and return srv3 XML
+    return parseSrv3(body);
+  }
+}
+
+/**
+ * Load primary caption segments for a video
+ * `segments` is empty when no timedtext data is available
+ */
+export async function loadCaptions(videoId: string): Promise<CaptionLoadResult> {
+  try {
+    const info = await getCaptionInfo(videoId);
+    const primary = pickPrimaryTrack(info.tracks);
+
+    if (!primary) {
+      console.log('[Subtitle Loop] No caption tracks found');
+      return { ...info, primary, segments: [] };
+    }
+
+    const segments = await fetchTrackSegments(primary);
+    console.log(`[Subtitle Loop] Loaded ${segments.length} segments from timedtext (${primary.languageCode})`);
+    return { ...info, primary, segments };
+  } catch (error) {
+    console.warn('[Subtitle Loop] Timedtext captions unavailable:', error);
+    return { tracks: [], translationLanguages: [], primary: null, segments: [] };
+  }
+}
+
+/**
+ * Fetch the secondary track for a language: an existing track in that
+ * language if there is one, otherwise YouTube's auto-translation of the primary
+ */
+export async function fetchSecondarySegments(
+  info: CaptionInfo,
+  primary: CaptionTrack,
+  languageCode: string
+): Promise<TranscriptSegment[]> {
+  const candidates = info.tracks.filter(t => t !== primary && t.languageCode === languageCode);
+  const track = candidates.find(t => t.kind !== 'asr') || candidates[0];
+
+  if (track) {
+    return await fetchTrackSegments(track);
+  }
+
+  if (primary.isTranslatable) {
+    return await fetchTrackSegments(primary, languageCode);
+  }
+
+  return [];
+}
+
+/**
+ * Align secondary captions to primary segments by time
+ * Each secondary cue is assigned to the primary segment it overlaps most.
+ * Returns one (possibly empty) string per primary segment.
+ */
+export function alignSegments(
+  primary: TranscriptSegment[],
+  secondary: TranscriptSegment[]
+): string[] {
+  const aligned: string[][] = primary.map(() => []);
+  if (primary.length === 0) return [];
+
+  let cursor = 0;
+  for (let j = 0; j < secondary.length; j++) {
+    const start = secondary[j].startTime;
+    const end = secondary[j].endTime;
+
+    // Skip primary segments that end before this cue starts
+    while (cursor < primary.length - 1 && primary[cursor].endTime <= start) {
+      cursor++;
+    }
+
+    let bestIndex = cursor;
+    let bestOverlap = -Infinity;
+    for (let i = cursor; i < primary.length && primary[i].startTime < end; i++) {
+      const overlap = Math.min(end, primary[i].endTime) - Math.max(start, primary[i].startTime);
+      if (overlap > bestOverlap) {
+        bestOverlap = overlap;
+        bestIndex = i;
+      }
+    }
+
+    aligned[bestIndex].push(secondary[j].text);
+  }
+
+  return aligned.map(texts => texts.join(' '));
+}
@@ -0,0 +1,256 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PlaybackClock } from './clock';
+import { LoopController } from './player';
+import { TIMING_CONFIG } from './constants';
+
+/**
+ * Fake <video> on a controllable clock
+ * Media time advances continuously with the (fake) wall clock at the
+ * playback rate. Frame callbacks fire each time playback crosses into a new
+ * frame, with that frame's start as mediaTime; timeupdate fires every 250ms
+ * of wall time; seeking/seeked are delivered on the next step, like the
+ * queued events of a real element.
+ */
+class FakeVideo extends EventTarget {
+  paused = true;
+  playbackRate = 1;
+  /** Playback position just before each jump back while playing */
+  jumpsFrom: number[] = [];
+
+  // Only present when the fake supports frame callbacks ('in' checks)
+  declare requestVideoFrameCallback?: (callback: VideoFrameRequestCallback) => number;
+  declare cancelVideoFrameCallback?: (handle: number) => void;
+
+  private position = 0;
+  private wallMs = 0;
+  private frameIndex: number | null = null;
+  private frameCallbacks = new Map<number, VideoFrameRequestCallback>();
+  private nextHandle = 1;
+  private queuedEvents: string[] = [];
+
+  constructor(readonly fps: number, frameCallbacks: boolean) {
+    super();
+    if (frameCallbacks) {
+      this.requestVideoFrameCallback = (callback) => {
+        const handle = this.nextHandle++;
+        this.frameCallbacks.set(handle, callback);
+        return handle;
+      };
+      this.cancelVideoFrameCallback = (handle) => {
+        this.frameCallbacks.delete(handle);
+      };
+    }
+  }
+
+  get currentTime(): number {
+    return this.position;
+  }
+
+  set currentTime(time: number) {
+    if (!this.paused && time < this.position) {
+      this.jumpsFrom.push(this.position);
+    }
+    this.position = time;
+    this.frameIndex = null;
+    this.queuedEvents.push('seeking', 'seeked', 'timeupdate');
+  }
+
+  play(): Promise<void> {
+    this.paused = false;
+    this.dispatchEvent(new Event('play'));
+    return Promise.resolve();
+  }
+
+  pause(): void {
+    this.paused = true;
+    this.dispatchEvent(new Event('pause'));
+  }
+
+  /**
+   * Advance wall time 1ms at a time, running due timers at each step
+   */
+  advance(ms: number): void {
+    for (let i = 0; i < ms; i++) {
+      this.step();
+    }
+  }
+
+  private step(): void {
+    this.wallMs++;
+    if (!this.paused) {
+      this.position += this.playbackRate / 1000;
+    }
+
+    // Timers due now see the new position; events below schedule from it
+    vi.advanceTimersByTime(1);
+
+    for (const type of this.queuedEvents.splice(0)) {
+      this.dispatchEvent(new Event(type));
+    }
+
+    if (!this.paused) {
+      this.presentFrame();
+      if (this.wallMs % 250 === 0) {
+        this.dispatchEvent(new Event('timeupdate'));
+      }
+    }
+  }
+
+  private presentFrame(): void {
+    const index = Math.floor(this.position * this.fps + 1e-9);
+    if (index === this.frameIndex) return;
+    this.frameIndex = index;
+
+    const callbacks = [...this.frameCallbacks.values()];
+    this.frameCallbacks.clear();
+    const metadata = { mediaTime: index / this.fps } as VideoFrameCallbackMetadata;
+    callbacks.forEach(callback => callback(this.wallMs, metadata));
+  }
+}
+
+/** The fake clock's step (1ms of wall time) bounds how precisely timers land */
+function stepTolerance(rate: number): number {
+  return rate / 1000;
+}
+
+const PATHS = [
+  { name: 'requestVideoFrameCallback', frameCallbacks: true, fps: 30 },
+  { name: 'timeupdate only', frameCallbacks: false, fps: 30 },
+];
+const RATES = [0.5, 1, 1.5, 2];
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal('window', globalThis);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+/**
+ * Earliest allowed fire: half a frame before the target. Without frame
+ * callbacks the clock never measures the frame, so it keeps the default.
+ */
+function halfFrame(path: typeof PATHS[number]): number {
+  return (path.frameCallbacks ? 1 / path.fps : TIMING_CONFIG.defaultFrameDuration) / 2;
+}
+
+describe.each(PATHS)('PlaybackClock ($name)', (path) => {
+  it.each(RATES)('fires the boundary within half a frame before the target at %sx', (rate) => {
+    const video = new FakeVideo(path.fps, path.frameCallbacks);
+    video.playbackRate = rate;
+    const clock = new PlaybackClock(() => video as unknown as HTMLVideoElement);
+
+    const target = 2.5;
+    const firedAt: number[] = [];
+    const remove = clock.addBoundary(() => target, () => firedAt.push(video.currentTime));
+
+    video.play();
+    video.advance(Math.ceil((target + 1) / rate * 1000));
+    remove();
+
+    expect(firedAt).toHaveLength(1);
+    expect(firedAt[0]).toBeLessThanOrEqual(target);
+    expect(firedAt[0]).toBeGreaterThanOrEqual(target - halfFrame(path) - stepTolerance(rate));
+  });
+
+  it('re-arms after seeking back and drops a scheduled fire on seek', () => {
+    const video = new FakeVideo(path.fps, path.frameCallbacks);
+    const clock = new PlaybackClock(() => video as unknown as HTMLVideoElement);
+
+    const target = 1;
+    const firedAt: number[] = [];
+    const remove = clock.addBoundary(() => target, () => firedAt.push(video.currentTime));
+
+    video.play();
+    video.advance(900);
+    // Likely inside the schedule window now; seeking away must cancel it
+    video.currentTime = 0.2;
+    video.advance(200);
+    expect(firedAt).toHaveLength(0);
+
+    video.advance(800);
+    expect(firedAt).toHaveLength(1);
+
+    video.currentTime = 0.5;
+    video.advance(600);
+    expect(firedAt).toHaveLength(2);
+    remove();
+
+    for (const time of firedAt) {
+      expect(time).toBeLessThanOrEqual(target);
+      expect(time).toBeGreaterThanOrEqual(target - halfFrame(path) - stepTolerance(1));
+    }
+  });
+
+  it('does not fire while paused', () => {
+    const video = new FakeVideo(path.fps, path.frameCallbacks);
+    const clock = new PlaybackClock(() => video as unknown as HTMLVideoElement);
+
+    const callback = vi.fn();
+    const remove = clock.addBoundary(() => 1, callback);
+
+    video.play();
+    video.advance(800);
+    video.pause();
+    video.advance(1000);
+    remove();
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('follows a replaced video element after refresh', () => {
+    const oldVideo = new FakeVideo(path.fps, path.frameCallbacks);
+    let video = oldVideo;
+    const clock = new PlaybackClock(() => video as unknown as HTMLVideoElement);
+
+    const target = 1;
+    const firedAt: number[] = [];
+    const remove = clock.addBoundary(() => target, () => firedAt.push(video.currentTime));
+
+    oldVideo.play();
+    oldVideo.advance(200);
+    oldVideo.pause();
+
+    video = new FakeVideo(path.fps, path.frameCallbacks);
+    clock.refresh();
+    video.play();
+    video.advance(1200);
+    // Events from the detached element are ignored
+    oldVideo.play();
+    oldVideo.advance(1200);
+    remove();
+
+    expect(firedAt).toHaveLength(1);
+    expect(firedAt[0]).toBeLessThanOrEqual(target);
+    expect(firedAt[0]).toBeGreaterThanOrEqual(target - halfFrame(path) - stepTolerance(1));
+  });
+});
+
+describe.each(PATHS)('LoopController on the fake video ($name)', (path) => {
+  it.each(RATES)('jumps back without overshooting the loop end at %sx', (rate) => {
+    const video = new FakeVideo(path.fps, path.frameCallbacks);
+    video.playbackRate = rate;
+    vi.stubGlobal('document', { querySelector: () => video });
+
+    const loop = new LoopController();
+    const [start, end] = [1, 2.2];
+    loop.setLoop(start, end, { padded: false });
+    video.play();
+
+    // Three repetitions' worth of wall time
+    video.advance(Math.ceil(3 * (end - start) / rate * 1000) + 50);
+    loop.clear();
+
+    expect(video.jumpsFrom.length).toBeGreaterThanOrEqual(2);
+    for (const position of video.jumpsFrom) {
+      expect(position).toBeLessThanOrEqual(end);
+      expect(position).toBeGreaterThanOrEqual(end - halfFrame(path) - stepTolerance(rate));
+    }
+    expect(loop.getState().isActive).toBe(false);
+  });
+});
@@ -0,0 +1,280 @@
+import { TIMING_CONFIG } from './constants';
+
+/**
+ * Playback timing engine
+ * Tracks the video's media time per presented frame (requestVideoFrameCallback),
+ * with timeupdate/seeked events as a fallback, and fires time boundaries
+ * pre-emptively so loops jump back before the end is audibly overshot.
+ * One clock is shared by the loop controller and the transcript highlight.
+ */
+
+/**
+ * Listener called with the current media time (seconds)
+ */
+export type TimeListener = (time: number) => void;
+
+/**
+ * A media time to react to, e.g. the loop end
+ */
+interface Boundary {
+  /** Current target time; null = boundary disabled */
+  getTime: () => number | null;
+  callback: () => void;
+  /** Already fired; re-armed once playback is back before the target */
+  fired: boolean;
+  /** Scheduled pre-emptive fire */
+  timerId: number | null;
+}
+
+export class PlaybackClock {
+  private resolveVideo: () => HTMLVideoElement | null;
+  private video: HTMLVideoElement | null = null;
+  private listeners = new Set<TimeListener>();
+  private boundaries = new Set<Boundary>();
+  private frameHandle: number | null = null;
+  private lastFrameTime: number | null = null;
+  private frameDuration: number = TIMING_CONFIG.defaultFrameDuration;
+
+  constructor(resolveVideo: () => HTMLVideoElement | null) {
+    this.resolveVideo = resolveVideo;
+  }
+
+  /**
+   * Call `listener` whenever the media time advances or jumps
+   * Returns an unsubscribe function
+   */
+  subscribe(listener: TimeListener): () => void {
+    this.listeners.add(listener);
+    this.attach();
+
+    if (this.video) {
+      listener(this.video.currentTime);
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      this.detachIfIdle();
+    };
+  }
+
+  /**
+   * Call `callback` once when playback reaches the time returned by `getTime`
+   * The boundary fires up to half a frame early (never a frame late) and
+   * re-arms when playback moves back before it. Returns a remove function.
+   */
+  addBoundary(getTime: () => number | null, callback: () => void): () => void {
+    const boundary: Boundary = { getTime, callback, fired: false, timerId: null };
+    this.boundaries.add(boundary);
+    this.attach();
+
+    return () => {
+      this.clearTimer(boundary);
+      this.boundaries.delete(boundary);
+      this.detachIfIdle();
+    };
+  }
+
+  /**
+   * Current media time
+   */
+  getTime(): number {
+    return this.video?.currentTime ?? 0;
+  }
+
+  /**
+   * Rebind if YouTube replaced the video element (call after SPA navigation)
+   * The old element stops sending events, so an active loop would otherwise
+   * never see its end again.
+   */
+  refresh(): void {
+    if (this.listeners.size === 0 && this.boundaries.size === 0) {
+      return;
+    }
+
+    const previous = this.video;
+    this.attach();
+    if (this.video !== previous) {
+      this.handleTimeEvent();
+    }
+  }
+
+  /**
+   * Bind to the current video element (rebinds if YouTube replaced it)
+   */
+  private attach(): void {
+    const video = this.resolveVideo();
+    if (video === this.video) {
+      return;
+    }
+
+    this.detach();
+    if (!video) {
+      return;
+    }
+
+    this.video = video;
+    video.addEventListener('play', this.handlePlay);
+    video.addEventListener('pause', this.handlePause);
+    video.addEventListener('seeking', this.handleSeeking);
+    video.addEventListener('seeked', this.handleTimeEvent);
+    video.addEventListener('timeupdate', this.handleTimeEvent);
+    video.addEventListener('ratechange', this.handleTimeEvent);
+
+    if (!video.paused) {
+      this.startFrameLoop();
+    }
+  }
+
+  /**
+   * Unbind from the video element
+   */
+  private detach(): void {
+    const video = this.video;
+    if (!video) {
+      return;
+    }
+
+    this.stopFrameLoop();
+    this.boundaries.forEach(boundary => this.clearTimer(boundary));
+    video.removeEventListener('play', this.handlePlay);
+    video.removeEventListener('pause', this.handlePause);
+    video.removeEventListener('seeking', this.handleSeeking);
+    video.removeEventListener('seeked', this.handleTimeEvent);
+    video.removeEventListener('timeupdate', this.handleTimeEvent);
+    video.removeEventListener('ratechange', this.handleTimeEvent);
+    this.video = null;
+  }
+
+  /**
+   * Stop all work when nobody is listening
+   */
+  private detachIfIdle(): void {
+    if (this.listeners.size === 0 && this.boundaries.size === 0) {
+      this.detach();
+    }
+  }
+
+  private handlePlay = (): void => {
+    this.startFrameLoop();
+    this.handleTimeEvent();
+  };
+
+  private handlePause = (): void => {
+    this.stopFrameLoop();
+    this.handleTimeEvent();
+  };
+
+  private handleSeeking = (): void => {
+    // Scheduled fires assume continuous playback
+    this.boundaries.forEach(boundary => this.clearTimer(boundary));
+    this.lastFrameTime = null;
+  };
+
+  private handleTimeEvent = (): void => {
+    if (this.video) {
+      this.tick(this.video.currentTime);
+    }
+  };
+
+  /**
+   * Tick on every presented frame while playing
+   * Without requestVideoFrameCallback, timeupdate plus scheduled fires take over.
+   */
+  private startFrameLoop(): void {
+    const video = this.video;
+    if (!video || this.frameHandle !== null || !('requestVideoFrameCallback' in video)) {
+      return;
+    }
+
+    const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata): void => {
+      // Re-request first so a pause/seek inside tick() can cancel it
+      this.frameHandle = video.requestVideoFrameCallback(onFrame);
+      this.updateFrameDuration(metadata.mediaTime);
+      this.tick(metadata.mediaTime);
+    };
+
+    this.frameHandle = video.requestVideoFrameCallback(onFrame);
+  }
+
+  private stopFrameLoop(): void {
+    if (this.frameHandle !== null) {
+      this.video?.cancelVideoFrameCallback(this.frameHandle);
+      this.frameHandle = null;
+    }
+    this.lastFrameTime = null;
+  }
+
+  /**
+   * Track the media time between frames (smoothed, ignoring seeks and drops)
+   */
+  private updateFrameDuration(mediaTime: number): void {
+    if (this.lastFrameTime !== null) {
+      const delta = mediaTime - this.lastFrameTime;
+      if (delta >= TIMING_CONFIG.minFrameDuration && delta <= TIMING_CONFIG.maxFrameDuration) {
+        this.frameDuration = this.frameDuration * 0.8 + delta * 0.2;
+      }
+    }
+    this.lastFrameTime = mediaTime;
+  }
+
+  /**
+   * Notify listeners and check boundaries
+   */
+  private tick(time: number): void {
+    [...this.listeners].forEach(listener => listener(time));
+    [...this.boundaries].forEach(boundary => this.checkBoundary(boundary, time));
+  }
+
+  /**
+   * Fire a boundary if the next frame would cross it, or schedule the fire
+   * when it is due before the next coarse tick
+   */
+  private checkBoundary(boundary: Boundary, time: number): void {
+    this.clearTimer(boundary);
+
+    const target = boundary.getTime();
+    if (target === null) {
+      return;
+    }
+
+    const halfFrame = this.frameDuration / 2;
+    const remaining = target - time;
+
+    if (remaining <= halfFrame) {
+      this.fire(boundary);
+      return;
+    }
+
+    boundary.fired = false;
+
+    const video = this.video;
+    if (!video || video.paused || video.playbackRate <= 0) {
+      return;
+    }
+
+    const delaySeconds = (remaining - halfFrame) / video.playbackRate;
+    if (delaySeconds <= TIMING_CONFIG.scheduleWindow) {
+      boundary.timerId = window.setTimeout(() => {
+        boundary.timerId = null;
+        if (this.boundaries.has(boundary) && this.video && !this.video.paused) {
+          this.fire(boundary);
+        }
+      }, delaySeconds * 1000);
+    }
+  }
+
+  private fire(boundary: Boundary): void {
+    if (boundary.fired) {
+      return;
+    }
+    boundary.fired = true;
+    boundary.callback();
+  }
+
+  private clearTimer(boundary: Boundary): void {
+    if (boundary.timerId !== null) {
+      clearTimeout(boundary.timerId);
+      boundary.timerId = null;
+    }
+  }
+}
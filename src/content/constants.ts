@@ -7,7 +7,7 @@
  * YouTube updates their DOM structure periodically.
  */
 export const SELECTORS = {
-  // Transcript panel (must be opened by user)
+  // Transcript panel (fallback when timedtext captions are unavailable)
   transcriptPanel: 'ytd-transcript-renderer',
   transcriptSegmentList: 'ytd-transcript-segment-list-renderer',
   transcriptSegment: 'ytd-transcript-segment-renderer',
@@ -39,10 +39,70 @@ export const PANEL_CONFIG = {
   id: 'subtitle-loop-panel',
   /** Max height for segment list */
   maxHeight: 450,
-  /** Highlight sync interval in ms */
-  highlightInterval: 200,
-  /** Loop check interval in ms */
-  loopCheckInterval: 100,
+  /** Assumed duration (seconds) of a segment with no known end (last segment) */
+  defaultSegmentDuration: 5,
+} as const;
+
+/**
+ * Playback timing engine configuration
+ */
+export const TIMING_CONFIG = {
+  /** Assumed media time per frame (seconds) until measured */
+  defaultFrameDuration: 1 / 30,
+  /** Frame deltas outside this range are seeks or drops, not frames */
+  minFrameDuration: 1 / 120,
+  maxFrameDuration: 1 / 10,
+  /** Schedule a boundary fire when it is due within this many seconds (covers timeupdate's ~250ms) */
+  scheduleWindow: 0.3,
+} as const;
+
+/**
+ * Loop boundary adjustment configuration
+ */
+export const LOOP_CONFIG = {
+  /** Nudge step in seconds */
+  nudgeStep: 0.1,
+  /** Max lead-in/lead-out padding in seconds */
+  maxPadding: 2,
+  /** chrome.storage.local key for global padding */
+  paddingKey: 'loopPadding',
+} as const;
+
+/**
+ * Practice mode (repeat / gap / auto-advance) configuration
+ */
+export const PRACTICE_CONFIG = {
+  /** chrome.storage.local key for practice settings */
+  settingsKey: 'practiceSettings',
+  /** Upper bound for repeat count and gap inputs */
+  maxRepeatCount: 99,
+  maxGap: 30,
+  defaults: {
+    repeatCount: 0,
+    gap: 0,
+    gapUnit: 'seconds',
+    autoAdvance: false,
+  },
+} as const;
+
+/**
+ * Save dialog configuration
+ */
+export const SAVE_DIALOG_CONFIG = {
+  /** chrome.storage.local key for the last group chosen when saving */
+  lastGroupKey: 'lastSaveGroupId',
+  /** Start/end nudge step in seconds */
+  boundStep: 0.1,
+} as const;
+
+/**
+ * Timedtext caption configuration
+ */
+export const CAPTION_CONFIG = {
+  /** Preferred primary caption language (prefix match on languageCode) */
+  preferredLanguage: 'en',
+  /** chrome.storage.local key for the secondary caption language ('' = off) */
+  secondaryLanguageKey: 'secondaryCaptionLanguage',
 } as const;
 
 /**
@@ -60,22 +120,86 @@ export const GROUP_COLORS = [
 ] as const;
 
 /**
- * Keyboard shortcuts configuration
- * Using Alt+ modifier to avoid conflicts with YouTube's native shortcuts
+ * Default keyboard shortcuts (users can remap them on the options page)
+ * Using Alt+ modifier to avoid conflicts with YouTube's native shortcuts.
+ * Punctuation under Alt matches the physical key (useCode): Alt changes the
+ * typed character on macOS (Alt+[ is “) and the characters move between
+ * layouts. The help key stays on `?` itself, which is typed without Alt.
  */
 export const KEYBOARD_SHORTCUTS = {
   /** Set loop start point */
-  setLoopStart: { key: '[', alt: true, ctrl: false, shift: false },
+  setLoopStart: { key: '[', code: 'BracketLeft', useCode: true, alt: true, ctrl: false, shift: false },
   /** Set loop end point */
-  setLoopEnd: { key: ']', alt: true, ctrl: false, shift: false },
+  setLoopEnd: { key: ']', code: 'BracketRight', useCode: true, alt: true, ctrl: false, shift: false },
   /** Save current segment */
-  saveSegment: { key: 's', alt: true, ctrl: false, shift: false },
+  saveSegment: { key: 's', code: 'KeyS', useCode: false, alt: true, ctrl: false, shift: false },
   /** Clear loop */
-  clearLoop: { key: 'c', alt: true, ctrl: false, shift: false },
+  clearLoop: { key: 'c', code: 'KeyC', useCode: false, alt: true, ctrl: false, shift: false },
   /** Refresh subtitles */
-  refreshSubtitles: { key: 'r', alt: true, ctrl: false, shift: false },
+  refreshSubtitles: { key: 'r', code: 'KeyR', useCode: false, alt: true, ctrl: false, shift: false },
+  /** Move loop start earlier */
+  nudgeStartEarlier: { key: 'j', code: 'KeyJ', useCode: false, alt: true, ctrl: false, shift: false },
+  /** Move loop start later */
+  nudgeStartLater: { key: 'k', code: 'KeyK', useCode: false, alt: true, ctrl: false, shift: false },
+  /** Move loop end earlier */
+  nudgeEndEarlier: { key: 'n', code: 'KeyN', useCode: false, alt: true, ctrl: false, shift: false },
+  /** Move loop end later */
+  nudgeEndLater: { key: 'm', code: 'KeyM', useCode: false, alt: true, ctrl: false, shift: false },
+  /** Jump to (or loop) the previous segment */
+  previousSegment: { key: 'arrowup', code: 'ArrowUp', useCode: false, alt: true, ctrl: false, shift: false },
+  /** Jump to (or loop) the next segment */
+  nextSegment: { key: 'arrowdown', code: 'ArrowDown', useCode: false, alt: true, ctrl: false, shift: false },
+  /** Replay the current segment once, then pause */
+  replaySegment: { key: 'p', code: 'KeyP', useCode: false, alt: true, ctrl: false, shift: false },
+  /** Step to the next slower playback speed */
+  speedDown: { key: ',', code: 'Comma', useCode: true, alt: true, ctrl: false, shift: false },
+  /** Step to the next faster playback speed */
+  speedUp: { key: '.', code: 'Period', useCode: true, alt: true, ctrl: false, shift: false },
+  /** Open the save dialog for the current segment */
+  openSaveDialog: { key: 's', code: 'KeyS', useCode: false, alt: true, ctrl: false, shift: true },
+  /** Collapse/expand the panel */
+  togglePanel: { key: 'h', code: 'KeyH', useCode: false, alt: true, ctrl: false, shift: false },
+  /** Show the shortcut cheat sheet */
+  showShortcutHelp: { key: '?', code: 'Slash', useCode: false, alt: false, ctrl: false, shift: true },
+} as const;
+
+/**
+ * Shortcut remapping configuration
+ */
+export const SHORTCUT_CONFIG = {
+  /** chrome.storage.sync key for user bindings */
+  storageKey: 'shortcutBindings',
 } as const;
 
+/**
+ * YouTube's native (unmodified) player shortcuts, for conflict warnings
+ */
+export const YOUTUBE_SHORTCUTS = [
+  { key: ' ', shift: false, label: '再生/一時停止' },
+  { key: 'k', shift: false, label: '再生/一時停止' },
+  { key: 'j', shift: false, label: '10秒戻る' },
+  { key: 'l', shift: false, label: '10秒進む' },
+  { key: 'arrowleft', shift: false, label: '5秒戻る' },
+  { key: 'arrowright', shift: false, label: '5秒進む' },
+  { key: 'arrowup', shift: false, label: '音量を上げる' },
+  { key: 'arrowdown', shift: false, label: '音量を下げる' },
+  { key: 'f', shift: false, label: '全画面' },
+  { key: 't', shift: false, label: 'シアターモード' },
+  { key: 'i', shift: false, label: 'ミニプレーヤー' },
+  { key: 'm', shift: false, label: 'ミュート' },
+  { key: 'c', shift: false, label: '字幕' },
+  { key: 'home', shift: false, label: '先頭へ' },
+  { key: 'end', shift: false, label: '末尾へ' },
+  { key: ',', shift: false, label: '前のフレーム' },
+  { key: '.', shift: false, label: '次のフレーム' },
+  { key: '<', shift: true, label: '再生速度を下げる' },
+  { key: '>', shift: true, label: '再生速度を上げる' },
+  { key: 'n', shift: true, label: '次の動画' },
+  { key: 'p', shift: true, label: '前の動画' },
+  { key: '/', shift: false, label: '検索' },
+  ...['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'].map(key => ({ key, shift: false, label: '指定位置へ移動' })),
+] as const;
+
 /**
  * Playback speed options
  */
@@ -1,12 +1,23 @@
 import { SubtitlePanel } from './ui/panel';
 import { KeyboardHandler } from './keyboard';
+import { ShortcutHelp } from './ui/shortcut-help';
 import { SELECTORS } from './constants';
+import { playbackClock } from './player';
+import { createDispatcher, MessageError } from '../messaging/dispatcher';
+import {
+  parsePlayClipPayload,
+  parseRunCommandPayload,
+  parseTabActionPayload,
+  parsePhraseChangedPayload,
+} from '../messaging/payloads';
+import type { TabActionPayload } from '../types';
 import './ui/styles.css';
 
 console.log('[Subtitle Loop] Content script loaded');
 
 let panel: SubtitlePanel | null = null;
 let keyboardHandler: KeyboardHandler | null = null;
+const shortcutHelp = new ShortcutHelp();
 
 /**
  * Check if current page is a YouTube video page
@@ -32,6 +43,7 @@ function initializePanel(): void {
       keyboardHandler.destroy();
       keyboardHandler = null;
     }
+    shortcutHelp.destroy();
     console.log('[Subtitle Loop] Panel destroyed (not video page)');
     return;
   }
@@ -52,10 +64,27 @@ function initializePanel(): void {
           saveSegment: () => panel?.handleSaveShortcut(),
           clearLoop: () => panel?.handleClearLoopShortcut(),
           refreshSubtitles: () => panel?.handleRefreshShortcut(),
+          nudgeStartEarlier: () => panel?.handleNudgeShortcut('start', -1),
+          nudgeStartLater: () => panel?.handleNudgeShortcut('start', 1),
+          nudgeEndEarlier: () => panel?.handleNudgeShortcut('end', -1),
+          nudgeEndLater: () => panel?.handleNudgeShortcut('end', 1),
+          previousSegment: () => panel?.handleSegmentStepShortcut(-1),
+          nextSegment: () => panel?.handleSegmentStepShortcut(1),
+          replaySegment: () => panel?.handleReplayShortcut(),
+          speedDown: () => panel?.handleSpeedStepShortcut(-1),
+          speedUp: () => panel?.handleSpeedStepShortcut(1),
+          openSaveDialog: () => panel?.handleOpenSaveDialogShortcut(),
+          togglePanel: () => panel?.togglePanel(),
+          showShortcutHelp: () => {
+            if (keyboardHandler) shortcutHelp.toggle(keyboardHandler.getBindings());
+          },
         });
         console.log('[Subtitle Loop] Keyboard shortcuts enabled');
       }
 
+      // Load captions automatically (timedtext data needs no user action)
+      panel.loadTranscript();
+
       // Check for pending loop from library
       await panel.checkPendingLoop();
 
@@ -105,15 +134,96 @@ function setupNavigationListener(): void {
   document.addEventListener('yt-navigate-finish', () => {
     console.log('[Subtitle Loop] Navigation detected');
     // Small delay to let YouTube update the DOM
-    setTimeout(initializePanel, 500);
+    setTimeout(handleNavigation, 500);
   });
 
   // Also handle popstate for browser back/forward
   window.addEventListener('popstate', () => {
-    setTimeout(initializePanel, 500);
+    setTimeout(handleNavigation, 500);
   });
 }
 
+function handleNavigation(): void {
+  // The player may have swapped its <video> element
+  playbackClock.refresh();
+  initializePanel();
+}
+
+/**
+ * Messages relayed from the background (review clip player, global commands,
+ * phrase change broadcasts) and popup quick controls
+ */
+const dispatch = createDispatcher({
+  PLAY_CLIP: {
+    validate: parsePlayClipPayload,
+    handle: ({ startTime, endTime }) => requirePanel().playClip(startTime, endTime),
+  },
+  STOP_CLIP: {
+    handle: () => panel?.stopClip(),
+  },
+  RUN_COMMAND: {
+    validate: parseRunCommandPayload,
+    handle: ({ action }) => {
+      if (!keyboardHandler) {
+        throw new MessageError('NOT_READY', 'Shortcuts not ready');
+      }
+      keyboardHandler.trigger(action);
+    },
+  },
+  GET_TAB_STATE: {
+    handle: () => requirePanel().getTabState(),
+  },
+  TAB_ACTION: {
+    validate: parseTabActionPayload,
+    handle: async (payload) => {
+      const current = requirePanel();
+      await handleTabAction(current, payload);
+      return current.getTabState();
+    },
+  },
+  PHRASE_CHANGED: {
+    validate: parsePhraseChangedPayload,
+    handle: (payload) => panel?.applyPhraseChanges(payload),
+  },
+});
+
+function requirePanel(): SubtitlePanel {
+  if (!panel) {
+    throw new MessageError('NOT_READY', 'Panel not ready');
+  }
+  return panel;
+}
+
+function setupMessageListener(): void {
+  chrome.runtime.onMessage.addListener((message: unknown, _sender, sendResponse) => {
+    dispatch(message).then(sendResponse);
+
+    // Return true to indicate async response
+    return true;
+  });
+}
+
+/**
+ * Run a popup quick control
+ */
+async function handleTabAction(panel: SubtitlePanel, payload: TabActionPayload): Promise<void> {
+  switch (payload.action) {
+    case 'toggleLoop':
+      panel.toggleLoop();
+      break;
+    case 'clearLoop':
+      panel.handleClearLoopShortcut();
+      break;
+    case 'quickSave':
+      await panel.handleSaveShortcut();
+      break;
+    case 'setSpeed':
+      panel.setSpeed(payload.speed);
+      break;
+  }
+}
+
 // Initialize on load
 setupNavigationListener();
+setupMessageListener();
 initializePanel();
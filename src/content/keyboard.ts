@@ -1,4 +1,11 @@
-import { KEYBOARD_SHORTCUTS } from './constants';
+import {
+  getDefaultBindings,
+  loadShortcutBindings,
+  onShortcutBindingsChanged,
+  matchesBinding,
+  type ShortcutAction,
+  type ShortcutBindings
+} from './shortcuts';
 
 /**
  * Keyboard shortcut handler configuration
@@ -9,19 +16,51 @@ interface ShortcutHandlers {
   saveSegment: () => void;
   clearLoop: () => void;
   refreshSubtitles: () => void;
+  nudgeStartEarlier: () => void;
+  nudgeStartLater: () => void;
+  nudgeEndEarlier: () => void;
+  nudgeEndLater: () => void;
+  previousSegment: () => void;
+  nextSegment: () => void;
+  replaySegment: () => void;
+  speedDown: () => void;
+  speedUp: () => void;
+  openSaveDialog: () => void;
+  togglePanel: () => void;
+  showShortcutHelp: () => void;
 }
 
 /**
  * Keyboard shortcut manager
- * Handles global keyboard shortcuts for the extension
+ * Handles global keyboard shortcuts for the extension.
+ * Bindings start at the defaults and are replaced by the user's bindings
+ * once loaded; changes on the options page apply live.
  */
 export class KeyboardHandler {
   private handlers: ShortcutHandlers;
+  private bindings: ShortcutBindings = getDefaultBindings();
+  private unwatchBindings: (() => void) | null = null;
   private isEnabled = true;
 
   constructor(handlers: ShortcutHandlers) {
     this.handlers = handlers;
     this.bindEvents();
+    this.loadBindings();
+  }
+
+  /**
+   * Current bindings
+   */
+  getBindings(): ShortcutBindings {
+    return { ...this.bindings };
+  }
+
+  /**
+   * Run an action directly (e.g. relayed from chrome.commands)
+   */
+  trigger(action: ShortcutAction): void {
+    this.handlers[action]();
+    console.log(`[Subtitle Loop] Shortcut action triggered: ${action}`);
   }
 
   /**
@@ -42,14 +81,29 @@ export class KeyboardHandler {
    * Cleanup event listeners
    */
   destroy(): void {
-    document.removeEventListener('keydown', this.handleKeydown);
+    document.removeEventListener('keydown', this.handleKeydown, true);
+    this.unwatchBindings?.();
+    this.unwatchBindings = null;
+  }
+
+  /**
+   * Load user bindings and watch for changes
+   */
+  private async loadBindings(): Promise<void> {
+    this.unwatchBindings = onShortcutBindingsChanged((bindings) => {
+      this.bindings = bindings;
+      console.log('[Subtitle Loop] Keyboard shortcuts updated');
+    });
+
+    this.bindings = await loadShortcutBindings();
   }
 
   /**
    * Bind keyboard event listeners
    */
   private bindEvents(): void {
-    document.addEventListener('keydown', this.handleKeydown);
+    // Capture phase so bound keys (e.g. "?") take precedence over YouTube's handlers
+    document.addEventListener('keydown', this.handleKeydown, true);
   }
 
   /**
@@ -68,13 +122,14 @@ export class KeyboardHandler {
     }
 
     // Check each shortcut
-    for (const [action, shortcut] of Object.entries(KEYBOARD_SHORTCUTS)) {
-      if (this.matchesShortcut(event, shortcut)) {
+    for (const action of Object.keys(this.bindings) as ShortcutAction[]) {
+      const binding = this.bindings[action];
+      if (binding && matchesBinding(event, binding)) {
         event.preventDefault();
         event.stopPropagation();
 
         // Execute the corresponding handler
-        const handler = this.handlers[action as keyof ShortcutHandlers];
+        const handler = this.handlers[action];
         if (handler) {
           handler();
           console.log(`[Subtitle Loop] Keyboard shortcut triggered: ${action}`);
@@ -84,21 +139,6 @@ export class KeyboardHandler {
     }
   };
 
-  /**
-   * Check if the event matches a shortcut definition
-   */
-  private matchesShortcut(
-    event: KeyboardEvent,
-    shortcut: { key: string; alt: boolean; ctrl: boolean; shift: boolean }
-  ): boolean {
-    return (
-      event.key.toLowerCase() === shortcut.key.toLowerCase() &&
-      event.altKey === shortcut.alt &&
-      event.ctrlKey === shortcut.ctrl &&
-      event.shiftKey === shortcut.shift
-    );
-  }
-
   /**
    * Check if the target element is an input element where we should not capture shortcuts
    */
@@ -1,4 +1,5 @@
-import { SELECTORS, PANEL_CONFIG } from './constants';
+import { SELECTORS, LOOP_CONFIG, PRACTICE_CONFIG } from './constants';
+import { PlaybackClock } from './clock';
 import type { LoopState } from '../types';
 
 /**
@@ -116,26 +117,87 @@ export function getPlaybackRate(): number {
   return video?.playbackRate ?? 1.0;
 }
 
+/**
+ * Shared playback clock for loop boundaries and transcript highlighting
+ */
+export const playbackClock = new PlaybackClock(getVideoPlayer);
+
+/**
+ * Lead-in/lead-out padding added around segment-based loops (seconds)
+ */
+export interface LoopPadding {
+  leadIn: number;
+  leadOut: number;
+}
+
+/**
+ * Practice mode settings for shadowing drills
+ */
+export interface PracticeSettings {
+  /** Repetitions before the loop completes (0 = loop forever) */
+  repeatCount: number;
+  /** Silent gap after each repetition */
+  gap: number;
+  /** 'seconds' = gap in seconds, 'clip' = gap as a multiple of the clip length */
+  gapUnit: 'seconds' | 'clip';
+  /** After the last repetition, loop the next segment */
+  autoAdvance: boolean;
+}
+
+/**
+ * Options for setLoop
+ */
+interface SetLoopOptions {
+  /** Apply global padding (false for exact saved bounds) */
+  padded?: boolean;
+}
+
 /**
  * Loop Controller Class
  * Manages A-B loop functionality
+ *
+ * The selected range (segment boundaries) is kept separately from the
+ * effective bounds that are actually looped:
+ *   start = rangeStart + startOffset - leadIn
+ *   end   = rangeEnd + endOffset + leadOut
  */
 export class LoopController {
-  private startTime: number | null = null;
-  private endTime: number | null = null;
+  private rangeStart: number | null = null;
+  private rangeEnd: number | null = null;
+  private startOffset = 0;
+  private endOffset = 0;
+  private padding: LoopPadding = { leadIn: 0, leadOut: 0 };
+  private isPadded = true;
   private isActive = false;
-  private intervalId: number | null = null;
+  private practice: PracticeSettings = { ...PRACTICE_CONFIG.defaults };
+  private completedRepeats = 0;
+  private gapTimeoutId: number | null = null;
+  private removeBoundary: (() => void) | null = null;
   private onStateChange: ((state: LoopState) => void) | null = null;
+  private onComplete: (() => void) | null = null;
 
-  constructor(onStateChange?: (state: LoopState) => void) {
+  /**
+   * @param onStateChange - called on every state change
+   * @param onComplete - called after the last repetition (see PracticeSettings.repeatCount);
+   *   the loop is still active, so the handler decides whether to advance or clear
+   */
+  constructor(onStateChange?: (state: LoopState) => void, onComplete?: () => void) {
     this.onStateChange = onStateChange || null;
+    this.onComplete = onComplete || null;
   }
 
   /**
    * Set loop start point
    */
   setStart(time: number): void {
-    this.startTime = time;
+    this.stopMonitoring();
+    this.cancelGap();
+    this.isActive = false;
+    this.completedRepeats = 0;
+    this.rangeStart = time;
+    this.rangeEnd = null;
+    this.isPadded = true;
+    this.resetOffsets();
     this.notifyStateChange();
   }
 
@@ -143,43 +205,114 @@ export class LoopController {
    * Set loop end point and activate loop
    */
   setEnd(time: number): void {
-    if (this.startTime === null) {
+    if (this.rangeStart === null) {
       console.warn('[Subtitle Loop] Cannot set end without start');
       return;
     }
 
-    // Ensure start < end
-    const start = Math.min(this.startTime, time);
-    const end = Math.max(this.startTime, time);
-
-    this.startTime = start;
-    this.endTime = end;
-    this.activate();
+    this.setLoop(this.rangeStart, time);
   }
 
   /**
    * Set both start and end, then activate
    */
-  setLoop(start: number, end: number): void {
-    this.startTime = Math.min(start, end);
-    this.endTime = Math.max(start, end);
+  setLoop(start: number, end: number, options: SetLoopOptions = {}): void {
+    this.rangeStart = Math.min(start, end);
+    this.rangeEnd = Math.max(start, end);
+    this.isPadded = options.padded ?? true;
+    this.completedRepeats = 0;
+    this.cancelGap();
+    this.resetOffsets();
     this.activate();
   }
 
+  /**
+   * Move the loop start by `delta` seconds (negative = earlier)
+   */
+  nudgeStart(delta: number): void {
+    if (!this.isActive) return;
+
+    this.startOffset = this.roundTime(this.startOffset + delta);
+    this.clampOffsets();
+    this.notifyStateChange();
+  }
+
+  /**
+   * Move the loop end by `delta` seconds (negative = earlier)
+   */
+  nudgeEnd(delta: number): void {
+    if (!this.isActive) return;
+
+    this.endOffset = this.roundTime(this.endOffset + delta);
+    this.clampOffsets();
+    this.notifyStateChange();
+  }
+
+  /**
+   * Reset nudges to the selected range
+   */
+  resetNudge(): void {
+    this.resetOffsets();
+    this.notifyStateChange();
+  }
+
+  /**
+   * Set global lead-in/lead-out padding
+   */
+  setPadding(padding: LoopPadding): void {
+    this.padding = {
+      leadIn: Math.max(0, padding.leadIn),
+      leadOut: Math.max(0, padding.leadOut),
+    };
+    this.clampOffsets();
+    this.notifyStateChange();
+  }
+
+  /**
+   * Set repetition/gap/auto-advance settings
+   */
+  setPracticeSettings(settings: PracticeSettings): void {
+    this.practice = { ...settings };
+    this.notifyStateChange();
+  }
+
+  /**
+   * Get practice settings
+   */
+  getPracticeSettings(): PracticeSettings {
+    return { ...this.practice };
+  }
+
   /**
    * Activate the loop
    */
   private activate(): void {
-    if (this.startTime === null || this.endTime === null) {
+    const start = this.getEffectiveStart();
+    if (start === null || this.getEffectiveEnd() === null) {
       return;
     }
 
     this.isActive = true;
     this.startMonitoring();
-    seekTo(this.startTime);
+    seekTo(start);
     this.notifyStateChange();
 
-    console.log(`[Subtitle Loop] Loop activated: ${this.startTime}s - ${this.endTime}s`);
+    console.log(`[Subtitle Loop] Loop activated: ${start}s - ${this.getEffectiveEnd()}s`);
+  }
+
+  /**
+   * Pause an active loop (keeping its range) or resume a paused one
+   */
+  toggle(): void {
+    if (this.isActive) {
+      this.stopMonitoring();
+      this.cancelGap();
+      this.isActive = false;
+      this.notifyStateChange();
+    } else if (this.rangeStart !== null && this.rangeEnd !== null) {
+      this.completedRepeats = 0;
+      this.activate();
+    }
   }
 
   /**
@@ -187,8 +320,11 @@ export class LoopController {
    */
   clear(): void {
     this.stopMonitoring();
-    this.startTime = null;
-    this.endTime = null;
+    this.cancelGap();
+    this.completedRepeats = 0;
+    this.rangeStart = null;
+    this.rangeEnd = null;
+    this.resetOffsets();
     this.isActive = false;
     this.notifyStateChange();
 
@@ -201,8 +337,15 @@ export class LoopController {
   getState(): LoopState {
     return {
       isActive: this.isActive,
-      startTime: this.startTime,
-      endTime: this.endTime,
+      startTime: this.getEffectiveStart(),
+      endTime: this.getEffectiveEnd(),
+      rangeStart: this.rangeStart,
+      rangeEnd: this.rangeEnd,
+      startOffset: this.startOffset,
+      endOffset: this.endOffset,
+      completedRepeats: this.completedRepeats,
+      repeatLimit: this.getRepeatLimit(),
+      isInGap: this.gapTimeoutId !== null,
     };
   }
 
@@ -210,38 +353,151 @@ export class LoopController {
    * Check if we're in "setting start" mode
    */
   isSettingStart(): boolean {
-    return this.startTime !== null && this.endTime === null && !this.isActive;
+    return this.rangeStart !== null && this.rangeEnd === null && !this.isActive;
+  }
+
+  /**
+   * Effective loop start (never before 0)
+   */
+  private getEffectiveStart(): number | null {
+    if (this.rangeStart === null) return null;
+
+    const leadIn = this.isPadded ? this.padding.leadIn : 0;
+    return Math.max(0, this.roundTime(this.rangeStart + this.startOffset - leadIn));
+  }
+
+  /**
+   * Effective loop end
+   */
+  private getEffectiveEnd(): number | null {
+    if (this.rangeEnd === null) return null;
+
+    const leadOut = this.isPadded ? this.padding.leadOut : 0;
+    return this.roundTime(this.rangeEnd + this.endOffset + leadOut);
+  }
+
+  /**
+   * Keep the effective range at least one nudge step long
+   */
+  private clampOffsets(): void {
+    const start = this.getEffectiveStart();
+    const end = this.getEffectiveEnd();
+    if (start === null || end === null) return;
+
+    const overlap = start + LOOP_CONFIG.nudgeStep - end;
+    if (overlap > 0) {
+      this.endOffset = this.roundTime(this.endOffset + overlap);
+    }
+  }
+
+  private resetOffsets(): void {
+    this.startOffset = 0;
+    this.endOffset = 0;
+  }
+
+  /**
+   * Round to milliseconds to avoid float drift from repeated nudges
+   */
+  private roundTime(seconds: number): number {
+    return Math.round(seconds * 1000) / 1000;
   }
 
   /**
    * Start monitoring playback for loop point
    */
   private startMonitoring(): void {
-    if (this.intervalId !== null) {
+    if (this.removeBoundary !== null) {
       return;
     }
 
-    this.intervalId = window.setInterval(() => {
-      if (!this.isActive || this.startTime === null || this.endTime === null) {
-        return;
+    this.removeBoundary = playbackClock.addBoundary(
+      () => (this.isActive && this.gapTimeoutId === null ? this.getEffectiveEnd() : null),
+      () => {
+        const start = this.getEffectiveStart();
+        const end = this.getEffectiveEnd();
+        if (start !== null && end !== null) {
+          this.handleLoopEnd(start, end);
+        }
       }
+    );
+  }
 
-      const currentTime = getCurrentTime();
+  /**
+   * Repetitions before completing (auto-advance needs a finite count)
+   */
+  private getRepeatLimit(): number {
+    const limit = Math.max(0, Math.floor(this.practice.repeatCount));
+    return this.practice.autoAdvance ? Math.max(1, limit) : limit;
+  }
 
-      // Check if we've passed the end point
-      if (currentTime >= this.endTime) {
-        seekTo(this.startTime);
+  /**
+   * Gap after a repetition in real (wall clock) seconds
+   */
+  private getGapSeconds(start: number, end: number): number {
+    const gap = Math.max(0, this.practice.gap);
+    if (this.practice.gapUnit === 'clip') {
+      return gap * (end - start) / getPlaybackRate();
+    }
+    return gap;
+  }
+
+  /**
+   * One repetition finished: count it, wait out the gap, then repeat or complete
+   */
+  private handleLoopEnd(start: number, end: number): void {
+    this.completedRepeats++;
+
+    const limit = this.getRepeatLimit();
+    const isLast = limit > 0 && this.completedRepeats >= limit;
+    const gapSeconds = this.getGapSeconds(start, end);
+
+    const proceed = () => {
+      if (isLast) {
+        this.notifyStateChange();
+        this.onComplete?.();
+        // Default (no handler): stop looping and let playback continue
+        if (!this.onComplete) {
+          this.clear();
+        }
+        return;
       }
-    }, PANEL_CONFIG.loopCheckInterval);
+
+      seekTo(start);
+      this.notifyStateChange();
+    };
+
+    if (gapSeconds <= 0) {
+      proceed();
+      return;
+    }
+
+    // Pause for the learner to speak
+    pause();
+    this.gapTimeoutId = window.setTimeout(() => {
+      this.gapTimeoutId = null;
+      proceed();
+      play();
+    }, gapSeconds * 1000);
+    this.notifyStateChange();
+  }
+
+  /**
+   * Cancel a pending gap
+   */
+  private cancelGap(): void {
+    if (this.gapTimeoutId !== null) {
+      clearTimeout(this.gapTimeoutId);
+      this.gapTimeoutId = null;
+    }
   }
 
   /**
    * Stop monitoring
    */
   private stopMonitoring(): void {
-    if (this.intervalId !== null) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
+    if (this.removeBoundary !== null) {
+      this.removeBoundary();
+      this.removeBoundary = null;
     }
   }
 
@@ -259,6 +515,8 @@ export class LoopController {
    */
   destroy(): void {
     this.stopMonitoring();
+    this.cancelGap();
     this.onStateChange = null;
+    this.onComplete = null;
   }
 }
@@ -0,0 +1,264 @@
+import { KEYBOARD_SHORTCUTS, SHORTCUT_CONFIG, YOUTUBE_SHORTCUTS } from './constants';
+import type { ShortcutBinding } from '../types';
+
+/**
+ * Shortcut bindings shared by the content script (matching) and the
+ * options page (editing). Bindings live in chrome.storage.sync so they
+ * follow the user across browsers; unset actions fall back to defaults.
+ */
+
+export type ShortcutAction = keyof typeof KEYBOARD_SHORTCUTS;
+
+/** Binding per action (null = unbound) */
+export type ShortcutBindings = Record<ShortcutAction, ShortcutBinding | null>;
+
+/**
+ * Display labels for shortcut actions
+ */
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  setLoopStart: 'ループ開始点を設定',
+  setLoopEnd: 'ループ終了点を設定',
+  saveSegment: '現在のセグメント（ループ中はループ範囲）を保存',
+  clearLoop: 'ループをクリア',
+  refreshSubtitles: '字幕を再読み込み',
+  nudgeStartEarlier: '開始点を早める',
+  nudgeStartLater: '開始点を遅らせる',
+  nudgeEndEarlier: '終了点を早める',
+  nudgeEndLater: '終了点を遅らせる',
+  previousSegment: '前のセグメントへ',
+  nextSegment: '次のセグメントへ',
+  replaySegment: '現在のセグメントを1回再生',
+  speedDown: '再生速度を下げる',
+  speedUp: '再生速度を上げる',
+  openSaveDialog: '保存ダイアログを開く',
+  togglePanel: 'パネルを折りたたむ/開く',
+  showShortcutHelp: 'ショートカット一覧を表示',
+};
+
+/**
+ * A binding that collides with another action or a YouTube shortcut
+ */
+export interface ShortcutConflict {
+  action: ShortcutAction;
+  /** Other action with the same binding, or null for a YouTube shortcut */
+  conflictsWith: ShortcutAction | null;
+  /** Human-readable description of what it collides with */
+  label: string;
+}
+
+const MODIFIER_KEYS = ['Alt', 'Control', 'Shift', 'Meta', 'AltGraph', 'CapsLock'];
+
+/**
+ * Get the default bindings
+ */
+export function getDefaultBindings(): ShortcutBindings {
+  const bindings = {} as ShortcutBindings;
+  for (const action of Object.keys(KEYBOARD_SHORTCUTS) as ShortcutAction[]) {
+    bindings[action] = { ...KEYBOARD_SHORTCUTS[action] };
+  }
+  return bindings;
+}
+
+/**
+ * Load bindings from chrome.storage.sync, merged over the defaults
+ */
+export async function loadShortcutBindings(): Promise<ShortcutBindings> {
+  const bindings = getDefaultBindings();
+
+  try {
+    const result = await chrome.storage.sync.get(SHORTCUT_CONFIG.storageKey);
+    return mergeBindings(bindings, result[SHORTCUT_CONFIG.storageKey]);
+  } catch (error) {
+    console.error('[Subtitle Loop] Error loading shortcut bindings:', error);
+    return bindings;
+  }
+}
+
+/**
+ * Save bindings to chrome.storage.sync
+ */
+export async function saveShortcutBindings(bindings: ShortcutBindings): Promise<void> {
+  await chrome.storage.sync.set({ [SHORTCUT_CONFIG.storageKey]: bindings });
+}
+
+/**
+ * Watch for binding changes (from the options page or another browser)
+ * Returns an unsubscribe function
+ */
+export function onShortcutBindingsChanged(
+  callback: (bindings: ShortcutBindings) => void
+): () => void {
+  const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+    if (areaName === 'sync' && SHORTCUT_CONFIG.storageKey in changes) {
+      callback(mergeBindings(getDefaultBindings(), changes[SHORTCUT_CONFIG.storageKey].newValue));
+    }
+  };
+
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+}
+
+/**
+ * Overlay stored bindings on the defaults, ignoring malformed entries
+ */
+function mergeBindings(defaults: ShortcutBindings, stored: unknown): ShortcutBindings {
+  if (!stored || typeof stored !== 'object') {
+    return defaults;
+  }
+
+  const merged = { ...defaults };
+  for (const action of Object.keys(defaults) as ShortcutAction[]) {
+    const value = (stored as Record<string, unknown>)[action];
+    if (value === null) {
+      merged[action] = null;
+    } else if (isBinding(value)) {
+      merged[action] = value;
+    }
+  }
+  return merged;
+}
+
+function isBinding(value: unknown): value is ShortcutBinding {
+  if (!value || typeof value !== 'object') return false;
+  const b = value as Record<string, unknown>;
+  return (
+    typeof b.key === 'string' &&
+    typeof b.code === 'string' &&
+    typeof b.useCode === 'boolean' &&
+    typeof b.alt === 'boolean' &&
+    typeof b.ctrl === 'boolean' &&
+    typeof b.shift === 'boolean'
+  );
+}
+
+/**
+ * Build a binding from a keydown event
+ * Returns null for modifier-only presses
+ */
+export function bindingFromEvent(event: KeyboardEvent, useCode: boolean): ShortcutBinding | null {
+  if (MODIFIER_KEYS.includes(event.key)) {
+    return null;
+  }
+
+  return {
+    key: event.key.toLowerCase(),
+    code: event.code,
+    useCode,
+    alt: event.altKey,
+    ctrl: event.ctrlKey,
+    shift: event.shiftKey,
+  };
+}
+
+/**
+ * Check if a keydown event matches a binding
+ */
+export function matchesBinding(event: KeyboardEvent, binding: ShortcutBinding): boolean {
+  const keyMatches = binding.useCode
+    ? event.code === binding.code
+    : event.key.toLowerCase() === binding.key.toLowerCase();
+
+  return (
+    keyMatches &&
+    event.altKey === binding.alt &&
+    event.ctrlKey === binding.ctrl &&
+    event.shiftKey === binding.shift
+  );
+}
+
+/**
+ * Format a binding for display, e.g. "Alt+[" or "Ctrl+Shift+S"
+ */
+export function formatBinding(binding: ShortcutBinding | null): string {
+  if (!binding) {
+    return '未設定';
+  }
+
+  const parts: string[] = [];
+  if (binding.ctrl) parts.push('Ctrl');
+  if (binding.alt) parts.push('Alt');
+  if (binding.shift) parts.push('Shift');
+  parts.push(binding.useCode ? formatCode(binding.code) : formatKey(binding.key));
+  return parts.join('+');
+}
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  arrowup: '↑',
+  arrowdown: '↓',
+  arrowleft: '←',
+  arrowright: '→',
+};
+
+function formatKey(key: string): string {
+  if (key in KEY_NAMES) return KEY_NAMES[key];
+  return key.length === 1 ? key.toUpperCase() : key.charAt(0).toUpperCase() + key.slice(1);
+}
+
+/** Punctuation codes shown as their US-layout character */
+const CODE_NAMES: Record<string, string> = {
+  BracketLeft: '[',
+  BracketRight: ']',
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Semicolon: ';',
+  Quote: "'",
+  Backquote: '`',
+  Backslash: '\\',
+  Minus: '-',
+  Equal: '=',
+};
+
+function formatCode(code: string): string {
+  const name = KEY_NAMES[code.toLowerCase()] ?? CODE_NAMES[code];
+  return name ?? code.replace(/^Key/, '').replace(/^Digit/, '');
+}
+
+/**
+ * Check if two bindings can be triggered by the same key press
+ * Mixed key/code bindings are compared on both, which errs on the side of warning.
+ */
+function bindingsOverlap(a: ShortcutBinding, b: ShortcutBinding): boolean {
+  if (a.alt !== b.alt || a.ctrl !== b.ctrl || a.shift !== b.shift) {
+    return false;
+  }
+  if (a.useCode && b.useCode) {
+    return a.code === b.code;
+  }
+  if (!a.useCode && !b.useCode) {
+    return a.key.toLowerCase() === b.key.toLowerCase();
+  }
+  return a.code === b.code || a.key.toLowerCase() === b.key.toLowerCase();
+}
+
+/**
+ * Find bindings that collide with each other or with YouTube's own shortcuts
+ */
+export function findConflicts(bindings: ShortcutBindings): ShortcutConflict[] {
+  const conflicts: ShortcutConflict[] = [];
+  const actions = Object.keys(bindings) as ShortcutAction[];
+
+  for (const action of actions) {
+    const binding = bindings[action];
+    if (!binding) continue;
+
+    for (const other of actions) {
+      const otherBinding = bindings[other];
+      if (other !== action && otherBinding && bindingsOverlap(binding, otherBinding)) {
+        conflicts.push({ action, conflictsWith: other, label: SHORTCUT_LABELS[other] });
+      }
+    }
+
+    if (!binding.alt && !binding.ctrl) {
+      const native = YOUTUBE_SHORTCUTS.find(
+        s => s.key === binding.key.toLowerCase() && s.shift === binding.shift
+      );
+      if (native) {
+        conflicts.push({ action, conflictsWith: null, label: `YouTube: ${native.label}` });
+      }
+    }
+  }
+
+  return conflicts;
+}
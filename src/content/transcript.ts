@@ -1,13 +1,18 @@
-import { SELECTORS } from './constants';
+import { SELECTORS, PANEL_CONFIG } from './constants';
 import type { TranscriptSegment, VideoInfo } from '../types';
 
+/**
+ * Segment before end times are resolved
+ */
+export type PartialSegment = Omit<TranscriptSegment, 'endTime'> & { endTime?: number };
+
 /**
  * Parse timestamp string to seconds
- * Handles formats: "1:23", "01:23", "1:02:30"
+ * Handles formats: "1:23", "01:23", "1:02:30", with optional fractions ("1:23.456")
  */
 export function parseTimestamp(timeStr: string): number {
   const cleaned = timeStr.trim();
-  const parts = cleaned.split(':').map(p => parseInt(p, 10));
+  const parts = cleaned.split(':').map(p => Number(p));
 
   if (parts.some(isNaN)) {
     console.warn('[Subtitle Loop] Invalid timestamp:', timeStr);
@@ -25,6 +30,23 @@ export function parseTimestamp(timeStr: string): number {
   return 0;
 }
 
+/**
+ * Parse user-entered time: "1:23.4", "1:02:03" or plain seconds ("83.4")
+ * Unlike parseTimestamp, returns null for invalid input
+ */
+export function parseTimeInput(text: string): number | null {
+  const parts = text.trim().split(':');
+  const last = parts.length - 1;
+
+  // Only the seconds part may have a fraction
+  const valid = parts.length <= 3 && parts.every((part, i) =>
+    i === last ? /^\d+(\.\d+)?$/.test(part) : /^\d+$/.test(part)
+  );
+  if (!valid) return null;
+
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+}
+
 /**
  * Format seconds to timestamp string
  * Output: "1:23" or "1:02:30" for videos over 1 hour
@@ -41,6 +63,15 @@ export function formatTimestamp(seconds: number): string {
   return `${minutes}:${secs.toString().padStart(2, '0')}`;
 }
 
+/**
+ * Format seconds to timestamp string with tenths
+ * Output: "1:23.4" or "1:02:30.5"
+ */
+export function formatPreciseTimestamp(seconds: number): string {
+  const tenths = Math.round(seconds * 10);
+  return `${formatTimestamp(Math.floor(tenths / 10))}.${tenths % 10}`;
+}
+
 /**
  * Check if transcript panel is currently visible
  */
@@ -60,7 +91,7 @@ export function extractTranscriptSegments(): TranscriptSegment[] {
     return [];
   }
 
-  const segments: TranscriptSegment[] = [];
+  const segments: PartialSegment[] = [];
 
   segmentElements.forEach((element, index) => {
     const timestampEl = element.querySelector(SELECTORS.segmentTimestamp);
@@ -83,7 +114,33 @@ export function extractTranscriptSegments(): TranscriptSegment[] {
   });
 
   console.log(`[Subtitle Loop] Extracted ${segments.length} segments`);
-  return segments;
+  return resolveSegmentEnds(segments);
+}
+
+/**
+ * Fill in missing end times and trim overlaps
+ * A segment ends at its own end time, but never after the next segment starts
+ * (auto-generated captions overlap while rolling). Segments without an end time
+ * run until the next segment, or `defaultSegmentDuration` for the last one.
+ */
+export function resolveSegmentEnds(segments: PartialSegment[]): TranscriptSegment[] {
+  return segments.map((segment, i) => {
+    const nextStart = segments[i + 1]?.startTime;
+    let endTime = segment.endTime ?? nextStart ?? segment.startTime + PANEL_CONFIG.defaultSegmentDuration;
+
+    if (nextStart !== undefined && nextStart > segment.startTime) {
+      endTime = Math.min(endTime, nextStart);
+    }
+
+    // Zero-length cues would make unplayable loops
+    if (endTime <= segment.startTime) {
+      endTime = nextStart !== undefined && nextStart > segment.startTime
+        ? nextStart
+        : segment.startTime + PANEL_CONFIG.defaultSegmentDuration;
+    }
+
+    return { ...segment, endTime };
+  });
 }
 
 /**
@@ -116,23 +173,41 @@ export function getVideoInfo(): VideoInfo | null {
 }
 
 /**
- * Find the segment that contains the given time
+ * Find the segment playing at the given time
+ * Segments are sorted by start time; in a silent gap between two segments
+ * the previous one is returned so shortcuts still have a target.
  */
 export function findSegmentAtTime(
   segments: TranscriptSegment[],
   currentTime: number
 ): TranscriptSegment | null {
-  for (let i = 0; i < segments.length; i++) {
-    const segment = segments[i];
-    const nextSegment = segments[i + 1];
-
-    const segmentEnd = nextSegment?.startTime ?? Infinity;
-
-    if (currentTime >= segment.startTime && currentTime < segmentEnd) {
-      return segment;
+  // Binary search for the last segment starting at or before currentTime
+  let low = 0;
+  let high = segments.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (segments[mid].startTime <= currentTime) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
     }
   }
-  return null;
+
+  return found >= 0 ? segments[found] : null;
+}
+
+/**
+ * Get segments whose start falls within a time range
+ */
+function getSegmentsInRange(
+  segments: TranscriptSegment[],
+  startTime: number,
+  endTime: number
+): TranscriptSegment[] {
+  return segments.filter(seg => seg.startTime >= startTime && seg.startTime < endTime);
 }
 
 /**
@@ -143,9 +218,21 @@ export function getTextForRange(
   startTime: number,
   endTime: number
 ): string {
-  const relevantSegments = segments.filter(
-    seg => seg.startTime >= startTime && seg.startTime < endTime
-  );
+  return getSegmentsInRange(segments, startTime, endTime).map(seg => seg.text).join(' ');
+}
+
+/**
+ * Get secondary-track text for a time range (combines multiple segments)
+ * Returns undefined when no segment in the range has a translation
+ */
+export function getTranslatedTextForRange(
+  segments: TranscriptSegment[],
+  startTime: number,
+  endTime: number
+): string | undefined {
+  const translated = getSegmentsInRange(segments, startTime, endTime)
+    .map(seg => seg.translatedText)
+    .filter(Boolean);
 
-  return relevantSegments.map(seg => seg.text).join(' ');
+  return translated.length > 0 ? translated.join(' ') : undefined;
 }
@@ -0,0 +1,122 @@
+import { formatTimestamp } from '../transcript';
+import type { DuplicateKind, DuplicateMatch, DuplicateResolution } from '../../types';
+
+const KIND_LABELS: Record<DuplicateKind, string> = {
+  'exact': '完全一致',
+  'overlap': '時間が重複',
+  'similar-text': 'ほぼ同じテキスト',
+};
+
+/**
+ * Warning shown when a phrase being saved duplicates saved ones
+ * Resolves with the chosen action, or null when cancelled.
+ */
+export class DuplicateDialog {
+  private overlay: HTMLElement | null = null;
+  private resolve: ((resolution: DuplicateResolution | null) => void) | null = null;
+
+  show(matches: DuplicateMatch[]): Promise<DuplicateResolution | null> {
+    this.finish(null);
+
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'sl-dialog-overlay';
+    this.overlay.innerHTML = this.getTemplate(matches);
+
+    document.body.appendChild(this.overlay);
+    this.bindEvents();
+
+    (this.overlay.querySelector('[data-action="merge"]') as HTMLButtonElement)?.focus();
+
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+    });
+  }
+
+  destroy(): void {
+    this.finish(null);
+  }
+
+  private getTemplate(matches: DuplicateMatch[]): string {
+    const items = matches.map(({ phrase, kind }, i) => `
+      <label class="sl-duplicate-item">
+        <input type="radio" name="sl-duplicate-target" value="${phrase.id}" ${i === 0 ? 'checked' : ''}>
+        <span class="sl-duplicate-content">
+          <span class="sl-duplicate-meta">
+            <span class="sl-duplicate-kind sl-duplicate-kind-${kind}">${KIND_LABELS[kind]}</span>
+            ${formatTimestamp(phrase.startTime)} - ${formatTimestamp(phrase.endTime)}
+            ${kind === 'similar-text' ? `· ${this.escapeHtml(phrase.videoTitle)}` : ''}
+          </span>
+          <span class="sl-duplicate-text">${this.escapeHtml(phrase.originalText)}</span>
+        </span>
+      </label>
+    `).join('');
+
+    return `
+      <div class="sl-dialog sl-duplicate">
+        <div class="sl-dialog-header">
+          <h3>⚠️ 似たフレーズが保存済みです</h3>
+          <button class="sl-btn sl-btn-icon" data-action="close">✕</button>
+        </div>
+
+        <div class="sl-dialog-body">
+          <p class="sl-duplicate-hint">
+            統合: 範囲・メモ・タグを選んだフレーズにまとめます<br>
+            置き換え: 選んだフレーズの範囲とテキストを上書きします（復習履歴は残ります）
+          </p>
+          ${items}
+        </div>
+
+        <div class="sl-dialog-footer">
+          <button class="sl-btn sl-btn-secondary" data-action="close">キャンセル</button>
+          <button class="sl-btn sl-btn-secondary" data-action="save-anyway">それでも保存</button>
+          <button class="sl-btn sl-btn-secondary" data-action="replace">置き換え</button>
+          <button class="sl-btn sl-btn-primary" data-action="merge">統合</button>
+        </div>
+      </div>
+    `;
+  }
+
+  private bindEvents(): void {
+    if (!this.overlay) return;
+
+    this.overlay.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const action = target.closest('[data-action]')?.getAttribute('data-action');
+
+      if (target === this.overlay || action === 'close') {
+        this.finish(null);
+      } else if (action === 'save-anyway') {
+        this.finish({ action: 'save-anyway' });
+      } else if (action === 'merge' || action === 'replace') {
+        const selected = this.overlay?.querySelector('input[name="sl-duplicate-target"]:checked') as HTMLInputElement | null;
+        if (selected) {
+          this.finish({ action, targetId: selected.value });
+        }
+      }
+    });
+
+    this.overlay.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        this.finish(null);
+      }
+    });
+  }
+
+  private finish(resolution: DuplicateResolution | null): void {
+    if (this.overlay) {
+      this.overlay.remove();
+      this.overlay = null;
+    }
+
+    const resolve = this.resolve;
+    this.resolve = null;
+    resolve?.(resolution);
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
@@ -1,30 +1,67 @@
-import { SELECTORS, PANEL_CONFIG, PLAYBACK_SPEEDS } from '../constants';
+import {
+  SELECTORS,
+  PANEL_CONFIG,
+  PLAYBACK_SPEEDS,
+  CAPTION_CONFIG,
+  LOOP_CONFIG,
+  PRACTICE_CONFIG,
+  SAVE_DIALOG_CONFIG,
+  GROUP_COLORS
+} from '../constants';
 import {
   extractTranscriptSegments,
   isTranscriptPanelOpen,
   formatTimestamp,
+  formatPreciseTimestamp,
   findSegmentAtTime,
   getVideoInfo,
-  getTextForRange
+  getTextForRange,
+  getTranslatedTextForRange
 } from '../transcript';
-import { seekTo, getCurrentTime, LoopController, setPlaybackRate } from '../player';
+import { loadCaptions, fetchSecondarySegments, alignSegments, type CaptionLoadResult } from '../captions';
+import {
+  seekTo,
+  getCurrentTime,
+  LoopController,
+  playbackClock,
+  setPlaybackRate,
+  getPlaybackRate,
+  play,
+  pause,
+  type LoopPadding,
+  type PracticeSettings
+} from '../player';
+import { send } from '../../messaging/client';
 import { showToast } from './toast';
 import { SaveDialog } from './save-dialog';
-import type { TranscriptSegment, LoopState, SavePhrasePayload, Phrase } from '../../types';
+import { DuplicateDialog } from './duplicate-dialog';
+import type {
+  TranscriptSegment,
+  LoopState,
+  SavePhrasePayload,
+  DuplicateResolution,
+  Phrase,
+  Group,
+  TabState,
+  PhraseChangedPayload
+} from '../../types';
 
 export class SubtitlePanel {
   private container: HTMLElement | null = null;
   private segments: TranscriptSegment[] = [];
-  private highlightIntervalId: number | null = null;
+  private unsubscribeClock: (() => void) | null = null;
   private currentSegmentIndex: number = -1;
   private loopController: LoopController;
   private saveDialog: SaveDialog | null = null;
+  private duplicateDialog = new DuplicateDialog();
   private savedPhrases: Phrase[] = [];
+  private captions: CaptionLoadResult | null = null;
+  private secondaryLanguage: string | null = null;
+  private padding: LoopPadding = { leadIn: 0, leadOut: 0 };
+  private removeReplayBoundary: (() => void) | null = null;
 
   constructor() {
-    this.loopController = new LoopController((state) => {
-      this.updateLoopStatusDisplay(state);
-    });
+    this.loopController = this.createLoopController();
   }
 
   /**
@@ -34,9 +71,7 @@ export class SubtitlePanel {
     this.destroy(); // Remove existing panel if any
 
     // Re-initialize loopController with callback after destroy
-    this.loopController = new LoopController((state) => {
-      this.updateLoopStatusDisplay(state);
-    });
+    this.loopController = this.createLoopController();
 
     this.container = document.createElement('div');
     this.container.id = PANEL_CONFIG.id;
@@ -58,17 +93,31 @@ export class SubtitlePanel {
 
     this.bindEvents();
     this.startHighlightSync();
+    this.loadPaddingSettings();
+    this.loadPracticeSettings();
 
     console.log('[Subtitle Loop] Panel created');
   }
 
+  /**
+   * Create a loop controller wired to this panel
+   */
+  private createLoopController(): LoopController {
+    return new LoopController(
+      (state) => this.updateLoopStatusDisplay(state),
+      () => this.handleLoopComplete()
+    );
+  }
+
   /**
    * Remove panel from the page
    */
   destroy(): void {
     this.stopHighlightSync();
+    this.cancelReplay();
     this.loopController.destroy();
     this.saveDialog?.destroy();
+    this.duplicateDialog.destroy();
 
     if (this.container) {
       this.container.remove();
@@ -76,17 +125,37 @@ export class SubtitlePanel {
     }
 
     this.segments = [];
+    this.captions = null;
     this.currentSegmentIndex = -1;
   }
 
   /**
-   * Load transcript from YouTube's panel
+   * Load transcript from timedtext captions, falling back to YouTube's transcript panel
    */
   async loadTranscript(): Promise<void> {
-    if (!isTranscriptPanelOpen()) {
+    const videoInfo = getVideoInfo();
+    this.showMessage('⏳ 字幕を読み込み中...');
+
+    this.captions = videoInfo ? await loadCaptions(videoInfo.videoId) : null;
+    this.segments = this.captions?.segments ?? [];
+
+    // Navigated to another video while loading
+    if (videoInfo && getVideoInfo()?.videoId !== videoInfo.videoId) {
+      return;
+    }
+
+    if (this.segments.length === 0 && isTranscriptPanelOpen()) {
+      this.segments = extractTranscriptSegments();
+    }
+
+    this.renderSecondaryLanguageOptions();
+    await this.loadSecondaryCaptions();
+
+    if (this.segments.length === 0) {
       this.showMessage(`
         <div class="sl-instruction">
-          <p><strong>📋 字幕パネルを開いてください:</strong></p>
+          <p><strong>❌ 字幕を取得できませんでした</strong></p>
+          <p>字幕パネルから読み込む場合:</p>
           <ol>
             <li>動画下の「<strong>...</strong>」ボタンをクリック</li>
             <li>「<strong>文字起こしを表示</strong>」を選択</li>
@@ -97,13 +166,6 @@ export class SubtitlePanel {
       return;
     }
 
-    this.segments = extractTranscriptSegments();
-
-    if (this.segments.length === 0) {
-      this.showMessage('❌ 字幕が見つかりませんでした');
-      return;
-    }
-
     this.renderSegments();
     await this.loadSavedPhrases();
     console.log(`[Subtitle Loop] Loaded ${this.segments.length} segments`);
@@ -129,6 +191,9 @@ export class SubtitlePanel {
         <button class="sl-btn sl-btn-refresh" data-action="refresh" title="字幕を再読み込み">
           🔄 読み込み
         </button>
+        <button class="sl-btn sl-btn-icon" data-action="toggle-panel" title="パネルを折りたたむ">
+          ▼
+        </button>
       </div>
 
       <div class="sl-panel-body">
@@ -141,6 +206,61 @@ export class SubtitlePanel {
           </button>
         </div>
 
+        <div class="sl-loop-adjust" data-loop-adjust style="display: none;">
+          <span class="sl-loop-adjust-label">開始</span>
+          <button class="sl-btn sl-btn-nudge" data-action="nudge" data-edge="start" data-direction="-1" title="開始を${LOOP_CONFIG.nudgeStep}秒早める">−</button>
+          <button class="sl-btn sl-btn-nudge" data-action="nudge" data-edge="start" data-direction="1" title="開始を${LOOP_CONFIG.nudgeStep}秒遅らせる">+</button>
+          <span class="sl-loop-adjust-label">終了</span>
+          <button class="sl-btn sl-btn-nudge" data-action="nudge" data-edge="end" data-direction="-1" title="終了を${LOOP_CONFIG.nudgeStep}秒早める">−</button>
+          <button class="sl-btn sl-btn-nudge" data-action="nudge" data-edge="end" data-direction="1" title="終了を${LOOP_CONFIG.nudgeStep}秒遅らせる">+</button>
+          <button class="sl-btn sl-btn-nudge" data-action="reset-nudge" title="調整をリセット">↺</button>
+        </div>
+
+        <details class="sl-loop-settings">
+          <summary>⚙️ ループ設定</summary>
+          <div class="sl-loop-settings-body">
+            <span class="sl-loop-settings-label">余白</span>
+            <label>
+              前
+              <input type="number" data-padding="leadIn" min="0" max="${LOOP_CONFIG.maxPadding}" step="${LOOP_CONFIG.nudgeStep}" value="0">
+              秒
+            </label>
+            <label>
+              後
+              <input type="number" data-padding="leadOut" min="0" max="${LOOP_CONFIG.maxPadding}" step="${LOOP_CONFIG.nudgeStep}" value="0">
+              秒
+            </label>
+          </div>
+          <div class="sl-loop-settings-body">
+            <span class="sl-loop-settings-label">練習</span>
+            <label title="0 = 無限ループ">
+              <input type="number" data-practice="repeatCount" min="0" max="${PRACTICE_CONFIG.maxRepeatCount}" step="1" value="0">
+              回
+            </label>
+            <label title="各リピートの後に一時停止して発話する時間">
+              間隔
+              <input type="number" data-practice="gap" min="0" max="${PRACTICE_CONFIG.maxGap}" step="0.5" value="0">
+            </label>
+            <select data-practice="gapUnit">
+              <option value="seconds">秒</option>
+              <option value="clip">× クリップ長</option>
+            </select>
+          </div>
+          <div class="sl-loop-settings-body">
+            <label title="指定回数ループしたら次のセグメントへ進む">
+              <input type="checkbox" data-practice="autoAdvance">
+              1文ずつ自動で次へ
+            </label>
+          </div>
+        </details>
+
+        <div class="sl-caption-control" data-caption-control style="display: none;">
+          <label for="sl-secondary-language">🌐 2言語表示</label>
+          <select id="sl-secondary-language" data-secondary-language>
+            <option value="">なし</option>
+          </select>
+        </div>
+
         <div class="sl-saved-phrases" data-saved-phrases style="display: none;">
           <div class="sl-saved-header">
             <span>💾 保存済み (<span data-saved-count>0</span>)</span>
@@ -155,7 +275,7 @@ export class SubtitlePanel {
 
         <div class="sl-segments" data-segments>
           <div class="sl-message">
-            「🔄 読み込み」をクリックして字幕を読み込んでください
+            ⏳ 字幕を読み込み中...
           </div>
         </div>
       </div>
@@ -187,21 +307,21 @@ export class SubtitlePanel {
     let segmentsWithEndClass = 0;
 
     container.innerHTML = this.segments.map((segment, index) => {
-      const nextSegment = this.segments[index + 1];
-      const segmentEnd = nextSegment?.startTime ?? segment.startTime + 5;
-
       // Check if this segment is in loop range
       let inLoopRange = false;
       let isLoopStart = false;
       let isLoopEnd = false;
 
-      if (loopState.startTime !== null && loopState.endTime !== null) {
-        inLoopRange = segment.startTime >= loopState.startTime && segment.startTime < loopState.endTime;
-        isLoopStart = segment.startTime === loopState.startTime;
-        isLoopEnd = segmentEnd > loopState.endTime && segment.startTime < loopState.endTime;
+      if (loopState.rangeStart !== null && loopState.rangeEnd !== null) {
+        inLoopRange = segment.startTime >= loopState.rangeStart && segment.startTime < loopState.rangeEnd;
+        isLoopStart = segment.startTime === loopState.rangeStart;
+        isLoopEnd = segment.endTime >= loopState.rangeEnd && segment.startTime < loopState.rangeEnd;
       }
 
       const classes = ['sl-segment'];
+      if (index === this.currentSegmentIndex) {
+        classes.push('sl-segment-active');
+      }
       if (inLoopRange) {
         classes.push('sl-segment-in-loop');
         segmentsWithLoopClass++;
@@ -221,7 +341,10 @@ export class SubtitlePanel {
              data-time="${segment.startTime}">
           <div class="sl-segment-main">
             <span class="sl-timestamp">${formatTimestamp(segment.startTime)}</span>
-            <span class="sl-text">${this.escapeHtml(segment.text)}</span>
+            <div class="sl-text-block">
+              <span class="sl-text">${this.escapeHtml(segment.text)}</span>
+              ${segment.translatedText ? `<span class="sl-translation">${this.escapeHtml(segment.translatedText)}</span>` : ''}
+            </div>
           </div>
           <div class="sl-segment-actions">
             <button class="sl-btn sl-btn-icon sl-btn-loop"
@@ -277,6 +400,17 @@ export class SubtitlePanel {
         seekTo(time);
       }
     });
+
+    this.container.addEventListener('change', (e) => {
+      const target = e.target as HTMLElement;
+      if (target.hasAttribute('data-secondary-language')) {
+        this.handleSecondaryLanguageChange((target as HTMLSelectElement).value);
+      } else if (target.hasAttribute('data-padding')) {
+        this.handlePaddingChange();
+      } else if (target.hasAttribute('data-practice')) {
+        this.handlePracticeChange();
+      }
+    });
   }
 
   /**
@@ -304,9 +438,38 @@ export class SubtitlePanel {
         this.toggleSavedSection();
         break;
 
+      case 'toggle-panel':
+        this.togglePanel();
+        break;
+
       case 'speed':
         this.handleSpeedChange(target);
         break;
+
+      case 'nudge': {
+        const button = target.closest('[data-action]') as HTMLElement;
+        const edge = button.dataset.edge === 'end' ? 'end' : 'start';
+        this.nudgeLoop(edge, parseInt(button.dataset.direction || '0', 10));
+        break;
+      }
+
+      case 'reset-nudge':
+        this.loopController.resetNudge();
+        break;
+    }
+  }
+
+  /**
+   * Collapse or expand the panel body
+   */
+  togglePanel(): void {
+    if (!this.container) return;
+
+    const collapsed = this.container.classList.toggle('sl-collapsed');
+    const toggleBtn = this.container.querySelector('[data-action="toggle-panel"]');
+    if (toggleBtn) {
+      toggleBtn.textContent = collapsed ? '▶' : '▼';
+      toggleBtn.setAttribute('title', collapsed ? 'パネルを開く' : 'パネルを折りたたむ');
     }
   }
 
@@ -338,11 +501,10 @@ export class SubtitlePanel {
     if (index < 0 || index >= this.segments.length) return;
 
     const segment = this.segments[index];
-    const nextSegment = this.segments[index + 1];
     const time = segment.startTime;
     const state = this.loopController.getState();
 
-    if (!state.isActive && state.startTime === null) {
+    if (!state.isActive && state.rangeStart === null) {
       // First click - set start
       this.loopController.setStart(time);
       seekTo(time);
@@ -350,15 +512,14 @@ export class SubtitlePanel {
       console.log('[Subtitle Loop] Loop start set:', time);
     } else if (this.loopController.isSettingStart()) {
       // Check if same segment clicked twice
-      if (state.startTime === time) {
+      if (state.rangeStart === time) {
         // Same segment - loop just this segment
-        const endTime = nextSegment?.startTime ?? time + 5;
-        this.loopController.setLoop(time, endTime);
+        this.loopController.setLoop(time, segment.endTime);
         this.renderSegments();
-        console.log('[Subtitle Loop] Single segment loop:', time, '-', endTime);
+        console.log('[Subtitle Loop] Single segment loop:', time, '-', segment.endTime);
       } else {
-        // Different segment - set end and activate
-        this.loopController.setEnd(time);
+        // Different segment - loop through the end of it
+        this.setLoopThroughSegment(segment);
         this.renderSegments();
         console.log('[Subtitle Loop] Loop activated');
       }
@@ -372,6 +533,23 @@ export class SubtitlePanel {
     }
   }
 
+  /**
+   * Activate a loop from the pending start point through the end of `segment`
+   * (either direction - the range always covers both segments completely)
+   */
+  private setLoopThroughSegment(segment: TranscriptSegment): void {
+    const { rangeStart: startTime } = this.loopController.getState();
+    if (startTime === null) return;
+
+    const startSegment = findSegmentAtTime(this.segments, startTime);
+    const startSegmentEnd = startSegment?.endTime ?? startTime;
+
+    this.loopController.setLoop(
+      Math.min(startTime, segment.startTime),
+      Math.max(startSegmentEnd, segment.endTime)
+    );
+  }
+
   /**
    * Update loop status display
    */
@@ -388,8 +566,14 @@ export class SubtitlePanel {
       return;
     }
 
+    const adjustRow = this.container?.querySelector('[data-loop-adjust]') as HTMLElement | null;
+    if (adjustRow) {
+      adjustRow.style.display = state.isActive ? 'flex' : 'none';
+    }
+
     if (state.isActive && state.startTime !== null && state.endTime !== null) {
-      const newText = `🔁 ループ中: ${formatTimestamp(state.startTime)} → ${formatTimestamp(state.endTime)}`;
+      const label = state.isInGap ? '⏸ 間隔' : '🔁 ループ中';
+      const newText = `${label}: ${formatPreciseTimestamp(state.startTime)} → ${formatPreciseTimestamp(state.endTime)}${this.formatOffsets(state)}${this.formatRepeatCounter(state)}`;
       console.log('[DEBUG] Setting ACTIVE state, text:', newText);
       statusEl.textContent = newText;
       statusEl.className = 'sl-loop-status sl-loop-active';
@@ -398,8 +582,14 @@ export class SubtitlePanel {
       console.log('[DEBUG] After update - statusEl.className:', statusEl.className);
       console.log('[DEBUG] After update - clearBtn.disabled:', clearBtn.disabled);
       this.renderSegments(); // Update segment visual indicators
-    } else if (state.startTime !== null && state.endTime === null) {
-      const newText = `📍 開始: ${formatTimestamp(state.startTime)} (🔁 終了を選択 または 同じ行で単体ループ)`;
+    } else if (state.startTime !== null && state.endTime !== null) {
+      // Range kept but looping paused (toggled off from the popup)
+      statusEl.textContent = `⏸ ループ停止中: ${formatPreciseTimestamp(state.startTime)} → ${formatPreciseTimestamp(state.endTime)}`;
+      statusEl.className = 'sl-loop-status sl-loop-setting';
+      clearBtn.disabled = false;
+      this.renderSegments();
+    } else if (state.rangeStart !== null && state.rangeEnd === null) {
+      const newText = `📍 開始: ${formatTimestamp(state.rangeStart)} (🔁 終了を選択 または 同じ行で単体ループ)`;
       console.log('[DEBUG] Setting SETTING state, text:', newText);
       statusEl.textContent = newText;
       statusEl.className = 'sl-loop-status sl-loop-setting';
@@ -414,33 +604,186 @@ export class SubtitlePanel {
     }
   }
 
+  /**
+   * Describe manual adjustments, e.g. " (開始 -0.2s / 終了 +0.1s)"
+   */
+  private formatOffsets(state: LoopState): string {
+    const parts: string[] = [];
+    const format = (offset: number) => `${offset > 0 ? '+' : ''}${offset.toFixed(1)}s`;
+
+    if (state.startOffset !== 0) parts.push(`開始 ${format(state.startOffset)}`);
+    if (state.endOffset !== 0) parts.push(`終了 ${format(state.endOffset)}`);
+
+    return parts.length > 0 ? ` (${parts.join(' / ')})` : '';
+  }
+
+  /**
+   * Describe repetition progress, e.g. " [2/5回]" or " [3回]"
+   */
+  private formatRepeatCounter(state: LoopState): string {
+    if (state.repeatLimit > 0) {
+      return ` [${Math.min(state.completedRepeats + 1, state.repeatLimit)}/${state.repeatLimit}回]`;
+    }
+    return state.completedRepeats > 0 ? ` [${state.completedRepeats + 1}回目]` : '';
+  }
+
+  /**
+   * Last repetition finished: advance to the next segment or stop looping
+   */
+  private handleLoopComplete(): void {
+    const state = this.loopController.getState();
+    const { autoAdvance } = this.loopController.getPracticeSettings();
+
+    if (autoAdvance && state.rangeEnd !== null) {
+      const rangeEnd = state.rangeEnd;
+      const next = this.segments.find(seg => seg.startTime >= rangeEnd - 0.001);
+      if (next) {
+        this.loopController.setLoop(next.startTime, next.endTime);
+        this.renderSegments();
+        return;
+      }
+    }
+
+    // Done - let playback continue past the loop
+    this.loopController.clear();
+    showToast(autoAdvance ? '✅ 最後のセグメントまで練習しました' : '✅ リピートが完了しました');
+  }
+
+  /**
+   * Load practice settings from storage and apply them
+   */
+  private async loadPracticeSettings(): Promise<void> {
+    let settings: PracticeSettings = { ...PRACTICE_CONFIG.defaults };
+    try {
+      const result = await chrome.storage.local.get(PRACTICE_CONFIG.settingsKey);
+      const stored = result[PRACTICE_CONFIG.settingsKey] as Partial<PracticeSettings> | undefined;
+      settings = { ...settings, ...stored };
+    } catch (error) {
+      console.error('[Subtitle Loop] Error loading practice settings:', error);
+    }
+
+    this.loopController.setPracticeSettings(settings);
+
+    const field = (key: keyof PracticeSettings) =>
+      this.container?.querySelector(`[data-practice="${key}"]`) as HTMLInputElement | HTMLSelectElement | null;
+
+    const repeatInput = field('repeatCount');
+    const gapInput = field('gap');
+    const unitSelect = field('gapUnit');
+    const advanceCheckbox = field('autoAdvance') as HTMLInputElement | null;
+
+    if (repeatInput) repeatInput.value = settings.repeatCount.toString();
+    if (gapInput) gapInput.value = settings.gap.toString();
+    if (unitSelect) unitSelect.value = settings.gapUnit;
+    if (advanceCheckbox) advanceCheckbox.checked = settings.autoAdvance;
+  }
+
+  /**
+   * Handle practice settings change
+   */
+  private async handlePracticeChange(): Promise<void> {
+    const readNumber = (key: 'repeatCount' | 'gap', max: number): number => {
+      const input = this.container?.querySelector(`[data-practice="${key}"]`) as HTMLInputElement | null;
+      const value = parseFloat(input?.value || '0');
+      return isNaN(value) ? 0 : Math.max(0, Math.min(max, value));
+    };
+    const unitSelect = this.container?.querySelector('[data-practice="gapUnit"]') as HTMLSelectElement | null;
+    const advanceCheckbox = this.container?.querySelector('[data-practice="autoAdvance"]') as HTMLInputElement | null;
+
+    const settings: PracticeSettings = {
+      repeatCount: Math.floor(readNumber('repeatCount', PRACTICE_CONFIG.maxRepeatCount)),
+      gap: readNumber('gap', PRACTICE_CONFIG.maxGap),
+      gapUnit: unitSelect?.value === 'clip' ? 'clip' : 'seconds',
+      autoAdvance: advanceCheckbox?.checked ?? false,
+    };
+
+    this.loopController.setPracticeSettings(settings);
+    await chrome.storage.local.set({ [PRACTICE_CONFIG.settingsKey]: settings });
+  }
+
+  /**
+   * Nudge a loop boundary by one step
+   */
+  private nudgeLoop(edge: 'start' | 'end', direction: number): boolean {
+    if (!this.loopController.getState().isActive) {
+      return false;
+    }
+
+    const delta = direction * LOOP_CONFIG.nudgeStep;
+    if (edge === 'start') {
+      this.loopController.nudgeStart(delta);
+      // Hear the new start right away
+      const { startTime } = this.loopController.getState();
+      if (startTime !== null) seekTo(startTime);
+    } else {
+      this.loopController.nudgeEnd(delta);
+    }
+    return true;
+  }
+
+  /**
+   * Load global padding from storage and apply it
+   */
+  private async loadPaddingSettings(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get(LOOP_CONFIG.paddingKey);
+      const stored = result[LOOP_CONFIG.paddingKey] as LoopPadding | undefined;
+      if (stored) {
+        this.padding = stored;
+      }
+    } catch (error) {
+      console.error('[Subtitle Loop] Error loading loop padding:', error);
+    }
+
+    this.loopController.setPadding(this.padding);
+
+    const leadInInput = this.container?.querySelector('[data-padding="leadIn"]') as HTMLInputElement | null;
+    const leadOutInput = this.container?.querySelector('[data-padding="leadOut"]') as HTMLInputElement | null;
+    if (leadInInput) leadInInput.value = this.padding.leadIn.toString();
+    if (leadOutInput) leadOutInput.value = this.padding.leadOut.toString();
+  }
+
+  /**
+   * Handle padding input change
+   */
+  private async handlePaddingChange(): Promise<void> {
+    const readInput = (key: keyof LoopPadding): number => {
+      const input = this.container?.querySelector(`[data-padding="${key}"]`) as HTMLInputElement | null;
+      const value = parseFloat(input?.value || '0');
+      return isNaN(value) ? 0 : Math.max(0, Math.min(LOOP_CONFIG.maxPadding, value));
+    };
+
+    this.padding = { leadIn: readInput('leadIn'), leadOut: readInput('leadOut') };
+    this.loopController.setPadding(this.padding);
+    await chrome.storage.local.set({ [LOOP_CONFIG.paddingKey]: this.padding });
+  }
+
   /**
    * Start syncing current segment highlight with video playback
    */
   private startHighlightSync(): void {
-    if (this.highlightIntervalId !== null) {
+    if (this.unsubscribeClock !== null) {
       return;
     }
 
-    this.highlightIntervalId = window.setInterval(() => {
+    this.unsubscribeClock = playbackClock.subscribe((currentTime) => {
       if (this.segments.length === 0) return;
 
-      const currentTime = getCurrentTime();
       const segment = findSegmentAtTime(this.segments, currentTime);
 
       if (segment && segment.index !== this.currentSegmentIndex) {
         this.highlightSegment(segment.index);
       }
-    }, PANEL_CONFIG.highlightInterval);
+    });
   }
 
   /**
    * Stop highlight sync
    */
   private stopHighlightSync(): void {
-    if (this.highlightIntervalId !== null) {
-      clearInterval(this.highlightIntervalId);
-      this.highlightIntervalId = null;
+    if (this.unsubscribeClock !== null) {
+      this.unsubscribeClock();
+      this.unsubscribeClock = null;
     }
   }
 
@@ -468,40 +811,12 @@ export class SubtitlePanel {
   /**
    * Handle save button click
    */
-  private async handleSaveClick(target: HTMLElement): Promise<void> {
+  private handleSaveClick(target: HTMLElement): void {
     const indexStr = target.getAttribute('data-index');
     const index = indexStr ? parseInt(indexStr, 10) : -1;
 
     if (index < 0 || index >= this.segments.length) return;
 
-    const segment = this.segments[index];
-    const nextSegment = this.segments[index + 1];
-
-    const videoInfo = getVideoInfo();
-    if (!videoInfo) {
-      showToast('❌ 動画情報を取得できませんでした');
-      return;
-    }
-
-    const loopState = this.loopController.getState();
-
-    // Determine time range
-    let startTime: number;
-    let endTime: number;
-    let text: string;
-
-    if (loopState.isActive && loopState.startTime !== null && loopState.endTime !== null) {
-      // Use loop range
-      startTime = loopState.startTime;
-      endTime = loopState.endTime;
-      text = getTextForRange(this.segments, startTime, endTime);
-    } else {
-      // Use single segment
-      startTime = segment.startTime;
-      endTime = nextSegment?.startTime ?? segment.startTime + 5;
-      text = segment.text;
-    }
-
     // Visual feedback - change button immediately
     const saveBtn = target.closest('.sl-btn-save') as HTMLButtonElement;
     if (saveBtn) {
@@ -514,14 +829,72 @@ export class SubtitlePanel {
       }, 150);
     }
 
+    this.openSaveDialog(this.segments[index], saveBtn);
+  }
+
+  /**
+   * Bounds and text to save: the active loop range, else the segment
+   */
+  private getSaveClip(segment: TranscriptSegment): {
+    startTime: number;
+    endTime: number;
+    text: string;
+    translatedText?: string;
+  } {
+    const loopState = this.loopController.getState();
+
+    if (
+      loopState.isActive &&
+      loopState.startTime !== null && loopState.endTime !== null &&
+      loopState.rangeStart !== null && loopState.rangeEnd !== null
+    ) {
+      // Use loop range (adjusted bounds, text from the selected segments)
+      return {
+        startTime: loopState.startTime,
+        endTime: loopState.endTime,
+        text: getTextForRange(this.segments, loopState.rangeStart, loopState.rangeEnd),
+        translatedText: getTranslatedTextForRange(this.segments, loopState.rangeStart, loopState.rangeEnd),
+      };
+    }
+
+    // Use single segment
+    return {
+      startTime: segment.startTime,
+      endTime: segment.endTime,
+      text: segment.text,
+      translatedText: segment.translatedText,
+    };
+  }
+
+  /**
+   * Show the save dialog for a segment (or the active loop range)
+   */
+  private openSaveDialog(segment: TranscriptSegment, saveBtn?: HTMLButtonElement): void {
+    const videoInfo = getVideoInfo();
+    if (!videoInfo) {
+      showToast('❌ 動画情報を取得できませんでした');
+      return;
+    }
+
+    const { startTime, endTime, text, translatedText } = this.getSaveClip(segment);
+
     // Show save dialog
+    this.saveDialog?.destroy();
     this.saveDialog = new SaveDialog({
       videoInfo,
       startTime,
       endTime,
       text,
+      translatedText,
+      getTagSuggestions: () => this.fetchTagNames(),
+      loadGroups: () => this.fetchSaveDialogGroups(),
+      createGroup: (name) => this.createGroup(name),
+      onPreview: (start, end) => this.playRangeOnce(start, end),
       onSave: async (payload) => {
-        await this.savePhrase(payload, saveBtn);
+        // Keep the dialog open if the save was cancelled or failed
+        if (!(await this.savePhrase(payload, saveBtn))) {
+          throw new Error('Phrase not saved');
+        }
       },
       onClose: () => {
         // Reset button if dialog is closed without saving
@@ -537,52 +910,119 @@ export class SubtitlePanel {
     this.saveDialog.show();
   }
 
+  /**
+   * Tags already used in the library (save dialog autocomplete)
+   */
+  private async fetchTagNames(): Promise<string[]> {
+    const response = await send('GET_TAGS');
+    return response.success ? response.data.map(tag => tag.name) : [];
+  }
+
+  /**
+   * Groups for the save dialog picker, with the last group used
+   */
+  private async fetchSaveDialogGroups(): Promise<{ groups: Group[]; lastGroupId: string | null }> {
+    const [response, stored] = await Promise.all([
+      send('GET_GROUPS'),
+      chrome.storage.local.get(SAVE_DIALOG_CONFIG.lastGroupKey),
+    ]);
+
+    return {
+      groups: response.success ? response.data : [],
+      lastGroupId: (stored[SAVE_DIALOG_CONFIG.lastGroupKey] as string | null | undefined) ?? null,
+    };
+  }
+
+  /**
+   * Create a group from the save dialog (next color in the palette)
+   */
+  private async createGroup(name: string): Promise<Group> {
+    const { groups } = await this.fetchSaveDialogGroups();
+    const response = await send('CREATE_GROUP', {
+      name,
+      color: GROUP_COLORS[groups.length % GROUP_COLORS.length],
+    });
+
+    if (!response.success) {
+      showToast(`❌ グループを作成できませんでした: ${response.error}`);
+      throw new Error(response.error);
+    }
+    return response.data;
+  }
+
   /**
    * Save phrase via background script
+   * If duplicates are found, asks whether to merge, replace or save anyway.
+   * Resolves to whether anything was saved.
    */
-  private async savePhrase(payload: SavePhrasePayload, saveBtn?: HTMLButtonElement): Promise<void> {
+  private async savePhrase(payload: SavePhrasePayload, saveBtn?: HTMLButtonElement): Promise<boolean> {
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'SAVE_PHRASE',
-        payload,
-      });
+      let response = await send('SAVE_PHRASE', payload);
 
-      if (response.success) {
-        showToast('✅ フレーズを保存しました');
-
-        // Visual feedback on success
-        if (saveBtn) {
-          saveBtn.innerHTML = '✅';
-          saveBtn.classList.remove('sl-btn-saving');
-          saveBtn.classList.add('sl-btn-saved');
+      const duplicates = response.success ? response.data.duplicates : [];
+      let resolution: DuplicateResolution | null = null;
 
-          // Reset after 2 seconds
-          setTimeout(() => {
-            saveBtn.innerHTML = '💾';
-            saveBtn.classList.remove('sl-btn-saved');
-          }, 2000);
+      if (duplicates.length > 0) {
+        resolution = await this.duplicateDialog.show(duplicates);
+        if (!resolution) {
+          showToast('ℹ️ 保存をキャンセルしました');
+          this.resetSaveButton(saveBtn);
+          return false;
         }
 
-        // Reload saved phrases to show the new one
-        await this.loadSavedPhrases();
-      } else {
+        response = await send('SAVE_PHRASE', { ...payload, resolution });
+      }
+
+      if (!response.success) {
         showToast(`❌ 保存に失敗: ${response.error}`);
+        this.resetSaveButton(saveBtn);
+        return false;
+      }
+
+      showToast(
+        resolution?.action === 'merge' ? '✅ 既存のフレーズに統合しました' :
+        resolution?.action === 'replace' ? '✅ 既存のフレーズを置き換えました' :
+        '✅ フレーズを保存しました'
+      );
 
-        // Reset button on error
-        if (saveBtn) {
+      // Preselect this group next time
+      await chrome.storage.local.set({ [SAVE_DIALOG_CONFIG.lastGroupKey]: payload.groupId ?? null });
+
+      // Visual feedback on success
+      if (saveBtn) {
+        saveBtn.innerHTML = '✅';
+        saveBtn.classList.remove('sl-btn-saving');
+        saveBtn.classList.add('sl-btn-saved');
+
+        // Reset after 2 seconds
+        setTimeout(() => {
           saveBtn.innerHTML = '💾';
-          saveBtn.classList.remove('sl-btn-saving');
-        }
+          saveBtn.classList.remove('sl-btn-saved');
+        }, 2000);
       }
+
+      // Show it right away (the change broadcast may arrive later)
+      if (response.data.phrase) {
+        await this.applyPhraseChanges({
+          upserted: [response.data.phrase],
+          createdIds: [],
+          deletedIds: [],
+          reload: false,
+        });
+      }
+      return true;
     } catch (error) {
       console.error('[Subtitle Loop] Save error:', error);
       showToast('❌ 保存に失敗しました');
+      this.resetSaveButton(saveBtn);
+      return false;
+    }
+  }
 
-      // Reset button on error
-      if (saveBtn) {
-        saveBtn.innerHTML = '💾';
-        saveBtn.classList.remove('sl-btn-saving');
-      }
+  private resetSaveButton(saveBtn?: HTMLButtonElement): void {
+    if (saveBtn) {
+      saveBtn.innerHTML = '💾';
+      saveBtn.classList.remove('sl-btn-saving');
     }
   }
 
@@ -613,7 +1053,7 @@ export class SubtitlePanel {
           // Wait a bit for transcript to load if needed
           setTimeout(() => {
             // Set the loop
-            this.loopController.setLoop(pending.startTime, pending.endTime);
+            this.loopController.setLoop(pending.startTime, pending.endTime, { padded: false });
 
             // If segments are loaded, re-render to show loop indicators
             if (this.segments.length > 0) {
@@ -634,8 +1074,8 @@ export class SubtitlePanel {
    * Switch to a saved loop
    */
   private switchToLoop(startTime: number, endTime: number): void {
-    // Set the loop
-    this.loopController.setLoop(startTime, endTime);
+    // Set the loop (saved bounds are exact - no extra padding)
+    this.loopController.setLoop(startTime, endTime, { padded: false });
 
     // Seek to start time
     seekTo(startTime);
@@ -648,6 +1088,26 @@ export class SubtitlePanel {
     showToast('🔁 ループを切り替えました');
   }
 
+  /**
+   * Loop a clip requested by the review session and start playback
+   */
+  playClip(startTime: number, endTime: number): void {
+    this.loopController.setLoop(startTime, endTime, { padded: false });
+    play();
+
+    if (this.segments.length > 0) {
+      this.renderSegments();
+    }
+  }
+
+  /**
+   * Stop the review session clip
+   */
+  stopClip(): void {
+    this.loopController.clear();
+    pause();
+  }
+
   /**
    * Load saved phrases for current video
    */
@@ -656,12 +1116,9 @@ export class SubtitlePanel {
     if (!videoInfo) return;
 
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'GET_PHRASES',
-        payload: { videoId: videoInfo.videoId }
-      });
+      const response = await send('GET_PHRASES', { videoId: videoInfo.videoId });
 
-      if (response.success && response.data.length > 0) {
+      if (response.success) {
         this.savedPhrases = response.data;
         this.renderSavedPhrases();
       }
@@ -670,6 +1127,46 @@ export class SubtitlePanel {
     }
   }
 
+  /**
+   * Apply a phrase change broadcast to the saved phrases of this video
+   * Phrases moved to another video drop out; new ones go first (newest first).
+   */
+  async applyPhraseChanges(change: PhraseChangedPayload): Promise<void> {
+    if (change.reload) {
+      await this.loadSavedPhrases();
+      return;
+    }
+
+    const videoId = getVideoInfo()?.videoId;
+    if (!videoId) return;
+
+    const removedIds = new Set(change.deletedIds);
+    for (const phrase of change.upserted) {
+      if (phrase.videoId !== videoId) removedIds.add(phrase.id);
+    }
+
+    let changed = false;
+    let phrases = this.savedPhrases.filter(phrase => !removedIds.has(phrase.id));
+    if (phrases.length !== this.savedPhrases.length) changed = true;
+
+    for (const phrase of change.upserted) {
+      if (phrase.videoId !== videoId) continue;
+
+      const index = phrases.findIndex(p => p.id === phrase.id);
+      if (index === -1) {
+        phrases = [phrase, ...phrases];
+      } else {
+        phrases[index] = phrase;
+      }
+      changed = true;
+    }
+
+    if (changed) {
+      this.savedPhrases = phrases;
+      this.renderSavedPhrases();
+    }
+  }
+
   /**
    * Render saved phrases section
    */
@@ -697,6 +1194,41 @@ export class SubtitlePanel {
     `).join('');
   }
 
+  /**
+   * Snapshot of the player and loop for the toolbar popup
+   */
+  getTabState(): TabState {
+    const videoInfo = getVideoInfo();
+    const loop = this.loopController.getState();
+
+    return {
+      videoId: videoInfo?.videoId ?? null,
+      title: videoInfo?.title ?? '',
+      loop: {
+        isActive: loop.isActive,
+        startTime: loop.startTime,
+        endTime: loop.endTime,
+      },
+      playbackRate: getPlaybackRate(),
+      savedCount: this.savedPhrases.length,
+      segmentCount: this.segments.length,
+    };
+  }
+
+  /**
+   * Popup: pause/resume the loop
+   */
+  toggleLoop(): void {
+    this.loopController.toggle();
+  }
+
+  /**
+   * Popup: set playback speed
+   */
+  setSpeed(speed: number): void {
+    this.applySpeed(speed);
+  }
+
   /**
    * Keyboard shortcut: Set loop start at current playback time
    */
@@ -726,17 +1258,17 @@ export class SubtitlePanel {
     }
 
     const state = this.loopController.getState();
-    if (state.startTime === null) {
+    if (state.rangeStart === null) {
       showToast('⚠️ 先にループ開始点を設定してください');
       return;
     }
 
-    this.loopController.setEnd(currentSegment.startTime);
+    this.setLoopThroughSegment(currentSegment);
     showToast('✅ ループを設定しました');
   }
 
   /**
-   * Keyboard shortcut: Save current segment
+   * Keyboard shortcut: Save current segment (or the active loop range)
    */
   async handleSaveShortcut(): Promise<void> {
     const currentTime = getCurrentTime();
@@ -747,16 +1279,7 @@ export class SubtitlePanel {
       return;
     }
 
-    // Check if already saved
-    const alreadySaved = this.savedPhrases.some(
-      p => p.startTime === currentSegment.startTime
-    );
-
-    if (alreadySaved) {
-      showToast('ℹ️ このセグメントは既に保存済みです');
-      return;
-    }
-
+    // Duplicates are checked by the background when saving
     // Get video info
     const videoInfo = getVideoInfo();
     if (!videoInfo) {
@@ -764,23 +1287,149 @@ export class SubtitlePanel {
       return;
     }
 
-    // Find next segment for end time
-    const nextSegment = this.segments[currentSegment.index + 1];
-    const endTime = nextSegment?.startTime ?? currentSegment.startTime + 5;
-
     // Save directly without dialog (quick save)
+    const { startTime, endTime, text, translatedText } = this.getSaveClip(currentSegment);
     const payload: SavePhrasePayload = {
       videoId: videoInfo.videoId,
       videoUrl: videoInfo.videoUrl,
       videoTitle: videoInfo.title,
-      startTime: currentSegment.startTime,
-      endTime: endTime,
-      originalText: currentSegment.text,
+      startTime,
+      endTime,
+      originalText: text,
+      translatedText,
     };
 
     await this.savePhrase(payload);
   }
 
+  /**
+   * Keyboard shortcut: Open the save dialog for the current segment
+   */
+  handleOpenSaveDialogShortcut(): void {
+    const currentSegment = findSegmentAtTime(this.segments, getCurrentTime());
+
+    if (!currentSegment) {
+      showToast('⚠️ 字幕セグメントが見つかりません');
+      return;
+    }
+
+    this.openSaveDialog(currentSegment);
+  }
+
+  /**
+   * Keyboard shortcut: Step to the previous/next segment
+   * While looping, the loop moves to the adjacent segment instead.
+   */
+  handleSegmentStepShortcut(direction: -1 | 1): void {
+    const state = this.loopController.getState();
+    let referenceTime = getCurrentTime();
+    if (state.isActive && state.rangeStart !== null && state.rangeEnd !== null) {
+      // First or last segment of the loop (rangeEnd is where the next segment starts)
+      referenceTime = direction < 0 ? state.rangeStart : state.rangeEnd - 0.001;
+    }
+
+    const reference = findSegmentAtTime(this.segments, referenceTime);
+
+    const position = reference ? this.segments.indexOf(reference) : -1;
+    const target = this.segments[position + direction] ?? (position === -1 && direction > 0 ? this.segments[0] : undefined);
+
+    if (!target) {
+      showToast(direction < 0 ? '⚠️ 最初のセグメントです' : '⚠️ 最後のセグメントです');
+      return;
+    }
+
+    if (state.isActive) {
+      this.loopController.setLoop(target.startTime, target.endTime);
+      this.renderSegments();
+    } else {
+      this.cancelReplay();
+      seekTo(target.startTime);
+    }
+  }
+
+  /**
+   * Keyboard shortcut: Replay the current segment once, then pause
+   * While looping, restarts the loop instead.
+   */
+  handleReplayShortcut(): void {
+    const state = this.loopController.getState();
+    if (state.isActive && state.startTime !== null) {
+      seekTo(state.startTime);
+      play();
+      return;
+    }
+
+    const segment = findSegmentAtTime(this.segments, getCurrentTime());
+    if (!segment) {
+      showToast('⚠️ 字幕セグメントが見つかりません');
+      return;
+    }
+
+    this.playRangeOnce(segment.startTime, segment.endTime);
+  }
+
+  /**
+   * Play a range once, then pause
+   * An active loop is suspended during playback so it can't jump back first.
+   */
+  private playRangeOnce(startTime: number, endTime: number): void {
+    this.cancelReplay();
+
+    const resumeLoop = this.loopController.getState().isActive;
+    if (resumeLoop) {
+      this.loopController.toggle();
+    }
+
+    seekTo(startTime);
+    play();
+
+    this.removeReplayBoundary = playbackClock.addBoundary(
+      () => endTime,
+      () => {
+        pause();
+        this.cancelReplay();
+        if (resumeLoop) {
+          this.loopController.toggle();
+        }
+      }
+    );
+  }
+
+  /**
+   * Stop watching for the end of a one-shot replay
+   */
+  private cancelReplay(): void {
+    this.removeReplayBoundary?.();
+    this.removeReplayBoundary = null;
+  }
+
+  /**
+   * Keyboard shortcut: Step through PLAYBACK_SPEEDS (wraps around)
+   */
+  handleSpeedStepShortcut(direction: -1 | 1): void {
+    const current = getPlaybackRate();
+
+    // Closest preset, in case the rate was changed from YouTube's own menu
+    let index = 0;
+    PLAYBACK_SPEEDS.forEach((speed, i) => {
+      if (Math.abs(speed - current) < Math.abs(PLAYBACK_SPEEDS[index] - current)) {
+        index = i;
+      }
+    });
+
+    const count = PLAYBACK_SPEEDS.length;
+    this.applySpeed(PLAYBACK_SPEEDS[(index + direction + count) % count]);
+  }
+
+  /**
+   * Keyboard shortcut: Nudge a loop boundary
+   */
+  handleNudgeShortcut(edge: 'start' | 'end', direction: number): void {
+    if (!this.nudgeLoop(edge, direction)) {
+      showToast('⚠️ ループが設定されていません');
+    }
+  }
+
   /**
    * Keyboard shortcut: Clear loop
    */
@@ -797,6 +1446,106 @@ export class SubtitlePanel {
     showToast('✅ 字幕を更新しました');
   }
 
+  /**
+   * Populate the secondary caption language selector
+   */
+  private renderSecondaryLanguageOptions(): void {
+    const control = this.container?.querySelector('[data-caption-control]') as HTMLElement;
+    const select = this.container?.querySelector('[data-secondary-language]') as HTMLSelectElement;
+    if (!control || !select) return;
+
+    const primary = this.captions?.primary;
+    if (!this.captions || !primary) {
+      control.style.display = 'none';
+      return;
+    }
+
+    // Existing tracks first, then auto-translate targets
+    const languages = new Map<string, string>();
+    for (const track of this.captions.tracks) {
+      if (track !== primary && track.languageCode !== primary.languageCode) {
+        languages.set(track.languageCode, track.name);
+      }
+    }
+    if (primary.isTranslatable) {
+      for (const lang of this.captions.translationLanguages) {
+        if (!languages.has(lang.languageCode) && lang.languageCode !== primary.languageCode) {
+          languages.set(lang.languageCode, `${lang.name} (自動翻訳)`);
+        }
+      }
+    }
+
+    if (languages.size === 0) {
+      control.style.display = 'none';
+      return;
+    }
+
+    select.innerHTML = `
+      <option value="">なし</option>
+      ${Array.from(languages).map(([code, name]) => `
+        <option value="${this.escapeHtml(code)}">${this.escapeHtml(name)}</option>
+      `).join('')}
+    `;
+    control.style.display = 'flex';
+  }
+
+  /**
+   * Load the saved secondary language (defaults to the browser language)
+   */
+  private async getSecondaryLanguage(): Promise<string> {
+    if (this.secondaryLanguage === null) {
+      const result = await chrome.storage.local.get(CAPTION_CONFIG.secondaryLanguageKey);
+      const stored = result[CAPTION_CONFIG.secondaryLanguageKey];
+      this.secondaryLanguage = typeof stored === 'string'
+        ? stored
+        : navigator.language.split('-')[0];
+    }
+    return this.secondaryLanguage;
+  }
+
+  /**
+   * Fetch the secondary track and align it to the loaded segments
+   */
+  private async loadSecondaryCaptions(): Promise<void> {
+    const select = this.container?.querySelector('[data-secondary-language]') as HTMLSelectElement;
+    const primary = this.captions?.primary;
+
+    for (const segment of this.segments) {
+      segment.translatedText = undefined;
+    }
+
+    if (!this.captions || !primary || !select) return;
+
+    const language = await this.getSecondaryLanguage();
+    const isAvailable = Array.from(select.options).some(opt => opt.value === language);
+    select.value = isAvailable ? language : '';
+
+    if (!language || !isAvailable) return;
+
+    try {
+      const secondary = await fetchSecondarySegments(this.captions, primary, language);
+      const aligned = alignSegments(this.segments, secondary);
+      this.segments.forEach((segment, i) => {
+        segment.translatedText = aligned[i] || undefined;
+      });
+      console.log(`[Subtitle Loop] Aligned ${secondary.length} secondary segments (${language})`);
+    } catch (error) {
+      console.warn('[Subtitle Loop] Secondary captions unavailable:', error);
+      showToast('⚠️ 2言語目の字幕を読み込めませんでした');
+    }
+  }
+
+  /**
+   * Handle secondary caption language change
+   */
+  private async handleSecondaryLanguageChange(language: string): Promise<void> {
+    this.secondaryLanguage = language;
+    await chrome.storage.local.set({ [CAPTION_CONFIG.secondaryLanguageKey]: language });
+
+    await this.loadSecondaryCaptions();
+    this.renderSegments();
+  }
+
   /**
    * Handle playback speed change
    */
@@ -804,14 +1553,21 @@ export class SubtitlePanel {
     const speedStr = target.dataset.speed;
     if (!speedStr) return;
 
-    const speed = parseFloat(speedStr);
+    this.applySpeed(parseFloat(speedStr));
+  }
+
+  /**
+   * Set playback speed and update the speed buttons
+   */
+  private applySpeed(speed: number): void {
     const success = setPlaybackRate(speed);
 
     if (success) {
       // Update active button state
       const allSpeedButtons = this.container?.querySelectorAll('.sl-btn-speed');
-      allSpeedButtons?.forEach(btn => btn.classList.remove('sl-active'));
-      target.classList.add('sl-active');
+      allSpeedButtons?.forEach(btn => {
+        btn.classList.toggle('sl-active', parseFloat((btn as HTMLElement).dataset.speed || '0') === speed);
+      });
 
       showToast(`🎵 再生速度: ${speed}x`);
     } else {
@@ -1,18 +1,34 @@
-import { formatTimestamp } from '../transcript';
-import type { VideoInfo, SavePhrasePayload } from '../../types';
+import { formatPreciseTimestamp, parseTimeInput } from '../transcript';
+import { SAVE_DIALOG_CONFIG } from '../constants';
+import { MIN_PHRASE_DURATION } from '../../db/validation';
+import { TagInput } from './tag-input';
+import type { VideoInfo, SavePhrasePayload, Group } from '../../types';
 
 interface SaveDialogOptions {
   videoInfo: VideoInfo;
   startTime: number;
   endTime: number;
   text: string;
+  translatedText?: string;
+  /** Existing tags for autocomplete */
+  getTagSuggestions?: () => Promise<string[]>;
+  /** Groups for the picker and the group to preselect (last used) */
+  loadGroups?: () => Promise<{ groups: Group[]; lastGroupId: string | null }>;
+  createGroup?: (name: string) => Promise<Group>;
+  /** Play the (edited) range once */
+  onPreview?: (startTime: number, endTime: number) => void;
   onSave: (payload: SavePhrasePayload) => Promise<void>;
   onClose: () => void;
 }
 
+/** Select value that reveals the inline "new group" field */
+const NEW_GROUP_VALUE = '__new__';
+
 export class SaveDialog {
   private overlay: HTMLElement | null = null;
   private options: SaveDialogOptions;
+  private tagInput: TagInput | null = null;
+  private groups: Group[] = [];
 
   constructor(options: SaveDialogOptions) {
     this.options = options;
@@ -24,6 +40,8 @@ export class SaveDialog {
     this.overlay.innerHTML = this.getTemplate();
 
     document.body.appendChild(this.overlay);
+    this.mountTagInput();
+    this.loadGroups();
     this.bindEvents();
 
     // Focus note input
@@ -36,10 +54,11 @@ export class SaveDialog {
       this.overlay.remove();
       this.overlay = null;
     }
+    this.tagInput = null;
   }
 
   private getTemplate(): string {
-    const { videoInfo, startTime, endTime, text } = this.options;
+    const { videoInfo, startTime, endTime, text, translatedText } = this.options;
 
     return `
       <div class="sl-dialog">
@@ -51,13 +70,31 @@ export class SaveDialog {
         <div class="sl-dialog-body">
           <div class="sl-dialog-info">
             <div class="sl-dialog-video">${this.escapeHtml(videoInfo.title)}</div>
-            <div class="sl-dialog-time">
-              ${formatTimestamp(startTime)} - ${formatTimestamp(endTime)}
+          </div>
+
+          <div class="sl-dialog-text">"${this.escapeHtml(text)}"</div>
+
+          <div class="sl-dialog-field">
+            <label>範囲</label>
+            <div class="sl-dialog-bounds">
+              ${this.getBoundTemplate('start', startTime)}
+              <span class="sl-dialog-bounds-sep">–</span>
+              ${this.getBoundTemplate('end', endTime)}
+              <button class="sl-btn sl-btn-secondary" data-action="preview" title="範囲を1回再生">
+                ▶ プレビュー
+              </button>
             </div>
+            <div class="sl-dialog-error" data-bounds-error></div>
           </div>
 
-          <div class="sl-dialog-text">
-            "${this.escapeHtml(text)}"
+          <div class="sl-dialog-field">
+            <label for="sl-translation">翻訳（任意）</label>
+            <textarea
+              id="sl-translation"
+              data-translation
+              rows="2"
+              placeholder="訳や意味..."
+            >${this.escapeHtml(translatedText ?? '')}</textarea>
           </div>
 
           <div class="sl-dialog-field">
@@ -69,6 +106,22 @@ export class SaveDialog {
               placeholder="このフレーズについてのメモ..."
             ></textarea>
           </div>
+
+          <div class="sl-dialog-field">
+            <label for="sl-group">グループ</label>
+            <select id="sl-group" class="sl-dialog-select" data-group>
+              ${this.getGroupOptions()}
+            </select>
+            <div class="sl-dialog-new-group" data-new-group hidden>
+              <input type="text" data-new-group-name placeholder="グループ名" maxlength="50">
+              <button class="sl-btn sl-btn-secondary" data-action="create-group">作成</button>
+            </div>
+          </div>
+
+          <div class="sl-dialog-field">
+            <label>タグ（任意）</label>
+            <div data-tags></div>
+          </div>
         </div>
 
         <div class="sl-dialog-footer">
@@ -83,6 +136,66 @@ export class SaveDialog {
     `;
   }
 
+  private getBoundTemplate(bound: 'start' | 'end', time: number): string {
+    const step = SAVE_DIALOG_CONFIG.boundStep;
+    return `
+      <span class="sl-dialog-bound">
+        <button class="sl-btn sl-btn-icon" data-action="nudge" data-bound="${bound}" data-delta="${-step}" title="-${step}秒">−</button>
+        <input type="text" inputmode="decimal" data-bound-input="${bound}" value="${formatPreciseTimestamp(time)}">
+        <button class="sl-btn sl-btn-icon" data-action="nudge" data-bound="${bound}" data-delta="${step}" title="+${step}秒">+</button>
+      </span>
+    `;
+  }
+
+  private mountTagInput(): void {
+    const container = this.overlay?.querySelector('[data-tags]');
+    if (!container) return;
+
+    const tagInput = new TagInput({ classPrefix: 'sl-' });
+    this.tagInput = tagInput;
+    container.appendChild(tagInput.element);
+
+    this.options.getTagSuggestions?.()
+      .then(suggestions => tagInput.setSuggestions(suggestions))
+      .catch(() => {
+        // Autocomplete is optional
+      });
+  }
+
+  /**
+   * Fill the group picker and preselect the last-used group
+   */
+  private async loadGroups(): Promise<void> {
+    if (!this.options.loadGroups) return;
+
+    try {
+      const { groups, lastGroupId } = await this.options.loadGroups();
+      this.groups = groups;
+      const selected = groups.some(g => g.id === lastGroupId) ? lastGroupId : null;
+      this.renderGroupOptions(selected);
+    } catch (error) {
+      console.error('[Subtitle Loop] Error loading groups:', error);
+    }
+  }
+
+  private getGroupOptions(): string {
+    return `
+      <option value="">なし</option>
+      ${this.groups.map(g => `
+        <option value="${g.id}">${this.escapeHtml(g.name)}</option>
+      `).join('')}
+      ${this.options.createGroup ? `<option value="${NEW_GROUP_VALUE}">＋ 新しいグループ…</option>` : ''}
+    `;
+  }
+
+  private renderGroupOptions(selectedId: string | null): void {
+    const select = this.overlay?.querySelector('[data-group]') as HTMLSelectElement | null;
+    if (!select) return;
+
+    select.innerHTML = this.getGroupOptions();
+    select.value = selectedId ?? '';
+  }
+
   private bindEvents(): void {
     if (!this.overlay) return;
 
@@ -96,38 +209,157 @@ export class SaveDialog {
     // Button actions
     this.overlay.addEventListener('click', async (e) => {
       const target = e.target as HTMLElement;
-      const action = target.closest('[data-action]')?.getAttribute('data-action');
+      const actionEl = target.closest('[data-action]') as HTMLElement | null;
+      const action = actionEl?.getAttribute('data-action');
 
       if (action === 'close') {
         this.options.onClose();
       } else if (action === 'save') {
         await this.handleSave();
+      } else if (action === 'preview') {
+        this.handlePreview();
+      } else if (action === 'nudge' && actionEl) {
+        this.nudgeBound(
+          actionEl.getAttribute('data-bound') as 'start' | 'end',
+          Number(actionEl.getAttribute('data-delta'))
+        );
+      } else if (action === 'create-group') {
+        await this.handleCreateGroup();
+      }
+    });
+
+    this.overlay.addEventListener('input', (e) => {
+      if ((e.target as HTMLElement).hasAttribute('data-bound-input')) {
+        this.readBounds();
+      }
+    });
+
+    this.overlay.addEventListener('change', (e) => {
+      const target = e.target as HTMLElement;
+      if (target.hasAttribute('data-group')) {
+        const isNew = (target as HTMLSelectElement).value === NEW_GROUP_VALUE;
+        const newGroup = this.overlay?.querySelector('[data-new-group]') as HTMLElement;
+        newGroup.hidden = !isNew;
+        if (isNew) {
+          (newGroup.querySelector('[data-new-group-name]') as HTMLInputElement).focus();
+        }
       }
     });
 
     // Keyboard shortcuts
     this.overlay.addEventListener('keydown', async (e) => {
+      const target = e.target as HTMLElement;
+
       if (e.key === 'Escape') {
         this.options.onClose();
       } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
         await this.handleSave();
+      } else if (e.key === 'Enter' && target.hasAttribute('data-new-group-name') && !e.isComposing) {
+        e.preventDefault();
+        await this.handleCreateGroup();
       }
     });
   }
 
+  /**
+   * Current bounds from the inputs, or null (with an error shown) if invalid
+   */
+  private readBounds(): { startTime: number; endTime: number } | null {
+    const startInput = this.overlay?.querySelector('[data-bound-input="start"]') as HTMLInputElement;
+    const endInput = this.overlay?.querySelector('[data-bound-input="end"]') as HTMLInputElement;
+    const errorEl = this.overlay?.querySelector('[data-bounds-error]') as HTMLElement;
+
+    const startTime = this.parseBound(startInput, this.options.startTime);
+    const endTime = this.parseBound(endInput, this.options.endTime);
+
+    let error = '';
+    if (startTime === null || endTime === null) {
+      error = '「1:23.4」または秒数で入力してください';
+    } else if (endTime - startTime < MIN_PHRASE_DURATION) {
+      error = `終了は開始より${MIN_PHRASE_DURATION}秒以上後にしてください`;
+    }
+
+    startInput.classList.toggle('sl-invalid', startTime === null);
+    endInput.classList.toggle('sl-invalid', endTime === null || Boolean(error));
+    errorEl.textContent = error;
+
+    return error || startTime === null || endTime === null ? null : { startTime, endTime };
+  }
+
+  /**
+   * Untouched inputs keep the original (millisecond) precision
+   */
+  private parseBound(input: HTMLInputElement, original: number): number | null {
+    if (input.value.trim() === formatPreciseTimestamp(original)) {
+      return original;
+    }
+    return parseTimeInput(input.value);
+  }
+
+  private nudgeBound(bound: 'start' | 'end', delta: number): void {
+    const input = this.overlay?.querySelector(`[data-bound-input="${bound}"]`) as HTMLInputElement;
+    const original = bound === 'start' ? this.options.startTime : this.options.endTime;
+    const current = this.parseBound(input, original);
+    if (current === null) return;
+
+    input.value = formatPreciseTimestamp(Math.max(0, current + delta));
+    this.readBounds();
+  }
+
+  private handlePreview(): void {
+    const bounds = this.readBounds();
+    if (bounds) {
+      this.options.onPreview?.(bounds.startTime, bounds.endTime);
+    }
+  }
+
+  private async handleCreateGroup(): Promise<void> {
+    const input = this.overlay?.querySelector('[data-new-group-name]') as HTMLInputElement;
+    const name = input?.value.trim();
+    if (!name || !this.options.createGroup) {
+      input?.focus();
+      return;
+    }
+
+    const existing = this.groups.find(g => g.name === name);
+    if (existing) {
+      this.renderGroupOptions(existing.id);
+    } else {
+      try {
+        const group = await this.options.createGroup(name);
+        this.groups = [...this.groups, group];
+        this.renderGroupOptions(group.id);
+      } catch (error) {
+        console.error('[Subtitle Loop] Error creating group:', error);
+        return;
+      }
+    }
+
+    input.value = '';
+    (this.overlay?.querySelector('[data-new-group]') as HTMLElement).hidden = true;
+  }
+
   private async handleSave(): Promise<void> {
-    const { videoInfo, startTime, endTime, text } = this.options;
+    const { videoInfo, text } = this.options;
+    const bounds = this.readBounds();
+    if (!bounds) return;
+
     const noteInput = this.overlay?.querySelector('[data-note]') as HTMLTextAreaElement;
-    const note = noteInput?.value.trim() || undefined;
+    const translationInput = this.overlay?.querySelector('[data-translation]') as HTMLTextAreaElement;
+    const groupSelect = this.overlay?.querySelector('[data-group]') as HTMLSelectElement;
+    const groupId = groupSelect?.value && groupSelect.value !== NEW_GROUP_VALUE ? groupSelect.value : undefined;
 
     const payload: SavePhrasePayload = {
       videoId: videoInfo.videoId,
       videoUrl: videoInfo.videoUrl,
       videoTitle: videoInfo.title,
-      startTime,
-      endTime,
+      startTime: bounds.startTime,
+      endTime: bounds.endTime,
       originalText: text,
-      note,
+      translatedText: translationInput?.value.trim() || undefined,
+      note: noteInput?.value.trim() || undefined,
+      groupId,
+      tags: this.tagInput?.getTags() ?? [],
     };
 
     // Disable save button
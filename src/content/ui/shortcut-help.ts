@@ -0,0 +1,88 @@
+import { SHORTCUT_LABELS, formatBinding, type ShortcutAction, type ShortcutBindings } from '../shortcuts';
+
+/**
+ * In-page cheat sheet listing the active shortcut bindings
+ */
+export class ShortcutHelp {
+  private overlay: HTMLElement | null = null;
+
+  isOpen(): boolean {
+    return this.overlay !== null;
+  }
+
+  toggle(bindings: ShortcutBindings): void {
+    if (this.isOpen()) {
+      this.destroy();
+    } else {
+      this.show(bindings);
+    }
+  }
+
+  show(bindings: ShortcutBindings): void {
+    this.destroy();
+
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'sl-dialog-overlay';
+    this.overlay.innerHTML = this.getTemplate(bindings);
+
+    document.body.appendChild(this.overlay);
+    this.bindEvents();
+  }
+
+  destroy(): void {
+    if (this.overlay) {
+      this.overlay.remove();
+      this.overlay = null;
+    }
+    document.removeEventListener('keydown', this.handleKeydown, true);
+  }
+
+  private getTemplate(bindings: ShortcutBindings): string {
+    const rows = (Object.keys(bindings) as ShortcutAction[]).map(action => `
+      <div class="sl-help-row">
+        <span>${SHORTCUT_LABELS[action]}</span>
+        <kbd class="sl-help-key ${bindings[action] ? '' : 'sl-help-key-unbound'}">${this.escapeHtml(formatBinding(bindings[action]))}</kbd>
+      </div>
+    `).join('');
+
+    return `
+      <div class="sl-dialog sl-help">
+        <div class="sl-dialog-header">
+          <h3>⌨️ キーボードショートカット</h3>
+          <button class="sl-btn sl-btn-icon" data-action="close">✕</button>
+        </div>
+        <div class="sl-dialog-body">
+          ${rows}
+          <p class="sl-help-hint">割り当てはライブラリの「⌨️ ショートカット」から変更できます</p>
+        </div>
+      </div>
+    `;
+  }
+
+  private bindEvents(): void {
+    if (!this.overlay) return;
+
+    this.overlay.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      if (target === this.overlay || target.closest('[data-action="close"]')) {
+        this.destroy();
+      }
+    });
+
+    // Overlay has no focusable content, so listen on the document
+    document.addEventListener('keydown', this.handleKeydown, true);
+  }
+
+  private handleKeydown = (e: KeyboardEvent): void => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      this.destroy();
+    }
+  };
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
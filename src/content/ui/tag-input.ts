@@ -0,0 +1,154 @@
+import { normalizeTags, matchKnownTag, parseTagInput } from '../../db/tags';
+
+interface TagInputOptions {
+  tags?: string[];
+  /** Known tags offered as autocomplete */
+  suggestions?: string[];
+  /** CSS class prefix ('sl-' on YouTube pages, '' on extension pages) */
+  classPrefix?: string;
+  onChange?: (tags: string[]) => void;
+}
+
+let nextListId = 0;
+
+/**
+ * Chip-style tag editor with datalist autocomplete
+ * Enter, a comma or picking a suggestion adds the typed tag; Backspace in
+ * the empty field removes the last one.
+ */
+export class TagInput {
+  readonly element: HTMLElement;
+  private options: TagInputOptions;
+  private tags: string[];
+  private suggestions: string[];
+  private chips: HTMLElement;
+  private input: HTMLInputElement;
+  private datalist: HTMLDataListElement;
+
+  constructor(options: TagInputOptions = {}) {
+    this.options = options;
+    this.tags = normalizeTags(options.tags ?? []);
+    this.suggestions = options.suggestions ?? [];
+
+    const prefix = options.classPrefix ?? '';
+    const listId = `${prefix}tag-suggestions-${nextListId++}`;
+
+    this.element = document.createElement('div');
+    this.element.className = `${prefix}tag-input`;
+    this.element.innerHTML = `
+      <span class="${prefix}tag-chips" data-tag-chips></span>
+      <input type="text" class="${prefix}tag-entry" list="${listId}" placeholder="タグを追加…" data-tag-entry>
+      <datalist id="${listId}"></datalist>
+    `;
+
+    this.chips = this.element.querySelector('[data-tag-chips]') as HTMLElement;
+    this.input = this.element.querySelector('[data-tag-entry]') as HTMLInputElement;
+    this.datalist = this.element.querySelector('datalist') as HTMLDataListElement;
+
+    this.bindEvents();
+    this.render();
+  }
+
+  /**
+   * Current tags, including text typed but not yet committed
+   */
+  getTags(): string[] {
+    this.commit();
+    return [...this.tags];
+  }
+
+  setSuggestions(suggestions: string[]): void {
+    this.suggestions = suggestions;
+    this.render();
+  }
+
+  focus(): void {
+    this.input.focus();
+  }
+
+  private bindEvents(): void {
+    this.input.addEventListener('keydown', (e) => {
+      // Don't interrupt IME conversion (Enter confirms the candidate);
+      // Ctrl+Enter is left to the surrounding form (getTags commits the text)
+      if (e.isComposing || e.ctrlKey || e.metaKey) return;
+
+      if (e.key === 'Enter' || e.key === ',' || e.key === '、') {
+        if (this.input.value.trim()) {
+          e.preventDefault();
+          e.stopPropagation();
+          this.commit();
+        }
+      } else if (e.key === 'Backspace' && this.input.value === '' && this.tags.length > 0) {
+        this.setTags(this.tags.slice(0, -1));
+      }
+    });
+
+    // Picking a datalist option replaces the text in one step
+    this.input.addEventListener('input', (e) => {
+      const inputType = (e as InputEvent).inputType;
+      if (inputType === undefined || inputType === 'insertReplacementText' || /[,、，]/.test(this.input.value)) {
+        this.commit();
+      }
+    });
+
+    this.input.addEventListener('blur', () => this.commit());
+
+    this.chips.addEventListener('click', (e) => {
+      const removeBtn = (e.target as HTMLElement).closest('[data-remove-tag]');
+      const tag = removeBtn?.getAttribute('data-remove-tag');
+      if (tag) {
+        this.setTags(this.tags.filter(t => t !== tag));
+        this.input.focus();
+      }
+    });
+  }
+
+  private commit(): void {
+    const added = parseTagInput(this.input.value).map(tag => matchKnownTag(tag, this.suggestions));
+    this.input.value = '';
+    if (added.length > 0) {
+      this.setTags([...this.tags, ...added]);
+    }
+  }
+
+  private setTags(tags: string[]): void {
+    const next = normalizeTags(tags);
+    const changed = next.join('\n') !== this.tags.join('\n');
+    this.tags = next;
+    this.render();
+
+    if (changed) {
+      this.options.onChange?.([...this.tags]);
+    }
+  }
+
+  private render(): void {
+    const prefix = this.options.classPrefix ?? '';
+
+    this.chips.replaceChildren(...this.tags.map((tag) => {
+      const chip = document.createElement('span');
+      chip.className = `${prefix}tag-chip`;
+      chip.textContent = `#${tag}`;
+
+      const remove = document.createElement('button');
+      remove.type = 'button';
+      remove.className = `${prefix}tag-remove`;
+      remove.setAttribute('data-remove-tag', tag);
+      remove.title = 'タグを外す';
+      remove.textContent = '✕';
+
+      chip.appendChild(remove);
+      return chip;
+    }));
+
+    // Offer only tags not already on the phrase
+    const used = new Set(this.tags.map(tag => tag.toLowerCase()));
+    this.datalist.replaceChildren(...this.suggestions
+      .filter(tag => !used.has(tag.toLowerCase()))
+      .map((tag) => {
+        const option = document.createElement('option');
+        option.value = tag;
+        return option;
+      }));
+  }
+}
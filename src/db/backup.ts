@@ -0,0 +1,133 @@
+import Dexie, { type Table } from 'dexie';
+import {
+  LATEST_VERSION,
+  getLatestTables,
+  upgradeRecord,
+  type StoredRecord,
+} from './migrations';
+
+/**
+ * Pre-upgrade backups and upgrade recovery
+ * Before a schema upgrade the current rows are copied into a separate
+ * database. If the upgrade then fails (IndexedDB rolls it back, but the
+ * library would stay unopenable), the database is rebuilt at the latest
+ * version and the backup replayed record by record, so one malformed row
+ * can't lock the user out of everything else.
+ */
+
+const BACKUP_DB_NAME = 'SubtitleLoopBackups';
+const MAX_BACKUPS = 3;
+
+interface UpgradeBackup {
+  id?: number;
+  fromVersion: number;
+  toVersion: number;
+  createdAt: Date;
+  tables: Record<string, StoredRecord[]>;
+}
+
+export interface RecoveryResult {
+  restored: number;
+  /** Records whose upgrade failed (still kept in the backup) */
+  skipped: number;
+}
+
+class BackupDB extends Dexie {
+  backups!: Table<UpgradeBackup, number>;
+
+  constructor() {
+    super(BACKUP_DB_NAME);
+    this.version(1).stores({
+      backups: '++id, createdAt',
+    });
+  }
+}
+
+const backupDb = new BackupDB();
+
+/**
+ * Open the database, backing it up first if it needs an upgrade
+ * Falls back to recovery from that backup when the upgrade fails; rethrows
+ * the upgrade error if there is nothing to recover from.
+ */
+export async function openWithBackup(db: Dexie): Promise<RecoveryResult | null> {
+  const backup = await backupBeforeUpgrade(db.name);
+
+  try {
+    await db.open();
+    return null;
+  } catch (error) {
+    if (!backup) throw error;
+
+    console.error(`[SubtitleLoop DB] Upgrade from v${backup.fromVersion} failed, recovering from backup:`, error);
+    return await recoverFromBackup(db, backup);
+  }
+}
+
+/**
+ * Snapshot every table if the stored schema is older than the latest
+ * Returns null for a fresh install or an up-to-date database.
+ */
+async function backupBeforeUpgrade(name: string): Promise<UpgradeBackup | null> {
+  if (!(await Dexie.exists(name))) return null;
+
+  // Opened without a schema, Dexie reads the stored version and tables as-is
+  const current = new Dexie(name);
+  let backup: UpgradeBackup;
+  try {
+    await current.open();
+    if (current.verno >= LATEST_VERSION) return null;
+
+    const tables: Record<string, StoredRecord[]> = {};
+    for (const table of current.tables) {
+      tables[table.name] = await table.toArray();
+    }
+    backup = { fromVersion: current.verno, toVersion: LATEST_VERSION, createdAt: new Date(), tables };
+  } finally {
+    current.close();
+  }
+
+  backup.id = await backupDb.backups.add(backup);
+  await pruneBackups();
+  console.log(`[SubtitleLoop DB] Backed up v${backup.fromVersion} before upgrading to v${LATEST_VERSION}`);
+  return backup;
+}
+
+/**
+ * Keep only the most recent backups
+ */
+async function pruneBackups(): Promise<void> {
+  const stale = await backupDb.backups.orderBy('createdAt').reverse().offset(MAX_BACKUPS).primaryKeys();
+  await backupDb.backups.bulkDelete(stale);
+}
+
+/**
+ * Recreate the database at the latest version and replay the backup
+ */
+async function recoverFromBackup(db: Dexie, backup: UpgradeBackup): Promise<RecoveryResult> {
+  db.close();
+  await db.delete();
+  await db.open();
+
+  const result: RecoveryResult = { restored: 0, skipped: 0 };
+  const tableNames = getLatestTables().filter(name => backup.tables[name]);
+
+  await db.transaction('rw', tableNames, async () => {
+    for (const name of tableNames) {
+      const records: StoredRecord[] = [];
+      for (const record of backup.tables[name]) {
+        try {
+          records.push(upgradeRecord(name, record, backup.fromVersion));
+        } catch (error) {
+          console.warn(`[SubtitleLoop DB] Skipped ${name} record ${String(record.id)}:`, error);
+          result.skipped++;
+        }
+      }
+      await db.table(name).bulkPut(records);
+      result.restored += records.length;
+    }
+  });
+
+  console.log(`[SubtitleLoop DB] Recovered ${result.restored} records (${result.skipped} skipped)`);
+  return result;
+}
@@ -0,0 +1,99 @@
+import type { Table, Transaction } from 'dexie';
+import { db } from './index';
+import type { Phrase, Group, ChangeSet } from '../types';
+
+/**
+ * Change tracking (feeds the live-sync broadcasts)
+ * Collects the phrases and groups each transaction writes or deletes and
+ * reports them once the transaction commits, so rolled-back writes are
+ * never announced.
+ */
+
+export interface DatabaseChanges {
+  phrases: ChangeSet<Phrase>;
+  groups: ChangeSet<Group>;
+}
+
+type ChangeListener = (changes: DatabaseChanges) => void;
+
+interface PendingChanges {
+  phrases: Map<string, Phrase | null>;
+  groups: Map<string, Group | null>;
+  /** Records the transaction created (ids are UUIDs, unique across tables) */
+  createdIds: Set<string>;
+}
+
+/**
+ * Call `listener` after every committed transaction that touched phrases or groups
+ * Schema upgrades are ignored (they rewrite every record on first open).
+ */
+export function watchChanges(listener: ChangeListener): void {
+  const pending = new WeakMap<IDBTransaction, PendingChanges>();
+
+  const track = (transaction: Transaction): PendingChanges | null => {
+    if (transaction.mode === 'versionchange') return null;
+
+    const idbtrans = transaction.idbtrans;
+    const existing = pending.get(idbtrans);
+    if (existing) return existing;
+
+    const changes: PendingChanges = { phrases: new Map(), groups: new Map(), createdIds: new Set() };
+    pending.set(idbtrans, changes);
+    idbtrans.addEventListener('complete', () => listener(toDatabaseChanges(changes)));
+    return changes;
+  };
+
+  // Record the final state once each operation succeeds (a later write in
+  // the same transaction replaces an earlier one; null marks a delete)
+  const watchTable = <T extends { id: string }>(
+    table: Table<T, string>,
+    select: (changes: PendingChanges) => Map<string, T | null>
+  ): void => {
+    table.hook('creating', function (primKey, record, transaction) {
+      this.onsuccess = () => {
+        const changes = track(transaction);
+        if (changes) {
+          select(changes).set(primKey, record);
+          changes.createdIds.add(primKey);
+        }
+      };
+    });
+
+    table.hook('updating', function (_modifications, primKey, _record, transaction) {
+      this.onsuccess = (updated) => {
+        const changes = track(transaction);
+        if (changes) select(changes).set(primKey, updated);
+      };
+    });
+
+    table.hook('deleting', function (primKey, _record, transaction) {
+      this.onsuccess = () => {
+        const changes = track(transaction);
+        if (changes) select(changes).set(primKey, null);
+      };
+    });
+  };
+
+  watchTable<Phrase>(db.phrases, changes => changes.phrases);
+  watchTable<Group>(db.groups, changes => changes.groups);
+}
+
+function toDatabaseChanges(pending: PendingChanges): DatabaseChanges {
+  return {
+    phrases: toChangeSet(pending.phrases, pending.createdIds),
+    groups: toChangeSet(pending.groups, pending.createdIds),
+  };
+}
+
+function toChangeSet<T>(records: Map<string, T | null>, createdIds: Set<string>): ChangeSet<T> {
+  const changeSet: ChangeSet<T> = { upserted: [], createdIds: [], deletedIds: [], reload: false };
+  for (const [id, record] of records) {
+    if (record) {
+      changeSet.upserted.push(record);
+      if (createdIds.has(id)) changeSet.createdIds.push(id);
+    } else {
+      changeSet.deletedIds.push(id);
+    }
+  }
+  return changeSet;
+}
@@ -0,0 +1,133 @@
+import 'fake-indexeddb/auto';
+import Dexie from 'dexie';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, checkDatabaseAvailability } from './index';
+import { findDuplicateClusters, getTextSimilarity } from './duplicates';
+import { createInitialSrsState } from './srs';
+import type { Phrase } from '../types';
+
+const COMMON = ['you', 'know', 'i', 'mean', 'the', 'a', 'it', 'is', 'what', 'that'];
+const RARE = ['harbor', 'lantern', 'violet', 'meadow', 'copper', 'falcon', 'tundra', 'quartz', 'ember', 'willow'];
+
+/** Deterministic pseudo-random numbers (mulberry32) */
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function phraseAt(index: number, originalText: string): Phrase {
+  const now = new Date(Date.UTC(2024, 0, 1) + index * 1000);
+  return {
+    id: `phrase-${index}`,
+    // One phrase per video, so only the text pass can link them
+    videoId: `video-${index}`,
+    videoUrl: `https://www.youtube.com/watch?v=video-${index}`,
+    videoTitle: `Video ${index}`,
+    startTime: 0,
+    endTime: 2,
+    originalText,
+    groupId: null,
+    tags: [],
+    ...createInitialSrsState(now),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/** Clusters found by comparing every pair (the definition being optimized) */
+function bruteForceClusters(phrases: Phrase[]): string[][] {
+  const parent = phrases.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (let i = 0; i < phrases.length; i++) {
+    for (let j = i + 1; j < phrases.length; j++) {
+      if (getTextSimilarity(phrases[i].originalText, phrases[j].originalText) >= 0.9) {
+        parent[find(i)] = find(j);
+      }
+    }
+  }
+  return normalizeClusters(phrases.map((phrase, i) => ({ root: find(i), id: phrase.id })));
+}
+
+function normalizeClusters(entries: Array<{ root: unknown; id: string }>): string[][] {
+  const clusters = new Map<unknown, string[]>();
+  for (const { root, id } of entries) {
+    clusters.set(root, [...(clusters.get(root) ?? []), id]);
+  }
+  return [...clusters.values()]
+    .filter(ids => ids.length > 1)
+    .map(ids => ids.sort())
+    .sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  await checkDatabaseAvailability();
+});
+
+beforeEach(async () => {
+  await db.phrases.clear();
+});
+
+afterAll(async () => {
+  db.close();
+  await Dexie.delete('SubtitleLoopDB');
+  vi.restoreAllMocks();
+});
+
+describe('findDuplicateClusters (similar text)', () => {
+  it('links near-identical text but not phrases that only share common words', async () => {
+    const phrases = [
+      'You know what I mean about the harbor lantern tonight',
+      'you know what i mean about the harbor lantern tonight!',
+      'You know what I mean about the copper falcon',
+      'You know what I mean',
+      'You know what I mean',
+    ].map((text, i) => phraseAt(i, text));
+    await db.phrases.bulkAdd(phrases);
+
+    const clusters = await findDuplicateClusters();
+
+    expect(clusters.map(cluster => cluster.kind)).toEqual(['similar-text', 'similar-text']);
+    expect(normalizeClusters(clusters.flatMap((cluster, root) =>
+      cluster.phrases.map(phrase => ({ root, id: phrase.id }))
+    ))).toEqual(normalizeClusters([
+      { root: 0, id: phrases[0].id },
+      { root: 0, id: phrases[1].id },
+      { root: 1, id: phrases[3].id },
+      { root: 1, id: phrases[4].id },
+    ]));
+  });
+
+  it('finds the same clusters as comparing every pair', async () => {
+    const random = createRandom(42);
+    const pick = (words: string[]): string => words[Math.floor(random() * words.length)];
+
+    const texts: string[] = [];
+    for (let i = 0; i < 300; i++) {
+      if (texts.length > 0 && random() < 0.3) {
+        // Copy of an earlier phrase, sometimes with one word changed or added
+        const words = texts[Math.floor(random() * texts.length)].split(' ');
+        if (random() < 0.5) words[Math.floor(random() * words.length)] = pick([...COMMON, ...RARE]);
+        if (random() < 0.3) words.push(pick(RARE));
+        texts.push(words.join(' '));
+      } else {
+        const length = 2 + Math.floor(random() * 10);
+        texts.push(Array.from({ length }, () => pick(random() < 0.7 ? COMMON : RARE)).join(' '));
+      }
+    }
+    const phrases = texts.map((text, i) => phraseAt(i, text));
+    await db.phrases.bulkAdd(phrases);
+
+    const clusters = await findDuplicateClusters();
+    const found = normalizeClusters(clusters.flatMap((cluster, root) =>
+      cluster.phrases.map(phrase => ({ root, id: phrase.id }))
+    ));
+
+    expect(found.length).toBeGreaterThan(10);
+    expect(found).toEqual(bruteForceClusters(phrases));
+  });
+});
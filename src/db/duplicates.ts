@@ -0,0 +1,398 @@
+import { db, savePhrase, isDatabaseReady } from './index';
+import { normalizeText, tokenize } from './search';
+import { normalizeTags } from './tags';
+import type {
+  Phrase,
+  DuplicateKind,
+  DuplicateMatch,
+  DuplicateCluster,
+  SavePhrasePayload,
+  SavePhraseResult,
+} from '../types';
+
+/**
+ * Duplicate and overlap detection
+ * Checked when saving (background side) and library-wide from the options page.
+ */
+
+/** Start/end difference still treated as the same clip (seconds) */
+const EXACT_TOLERANCE = 0.05;
+/** Share of the shorter clip that must overlap; padded loops overlap their neighbours slightly */
+const MIN_OVERLAP_RATIO = 0.5;
+/** Token-bigram similarity treated as near-identical text */
+const MIN_TEXT_SIMILARITY = 0.9;
+
+const KIND_ORDER: DuplicateKind[] = ['exact', 'overlap', 'similar-text'];
+
+type PhraseData = Omit<SavePhrasePayload, 'resolution'>;
+type Clip = Pick<Phrase, 'videoId' | 'startTime' | 'endTime' | 'originalText'>;
+type MergeSource = Clip & Pick<PhraseData, 'translatedText' | 'note' | 'tags'> & { groupId?: string | null };
+
+// ============================================================
+// COMPARISON
+// ============================================================
+
+/**
+ * Overlap as a share of the shorter clip (0 = disjoint, 1 = one contains the other)
+ */
+export function getOverlapRatio(a: Clip, b: Clip): number {
+  const overlap = Math.min(a.endTime, b.endTime) - Math.max(a.startTime, b.startTime);
+  const shorter = Math.min(a.endTime - a.startTime, b.endTime - b.startTime);
+  return overlap > 0 && shorter > 0 ? Math.min(1, overlap / shorter) : 0;
+}
+
+/**
+ * Dice coefficient over adjacent token pairs (word order matters)
+ */
+export function getTextSimilarity(a: string, b: string): number {
+  const pairsA = getTokenPairs(a);
+  const pairsB = getTokenPairs(b);
+  if (pairsA.size === 0 || pairsB.size === 0) return 0;
+
+  let shared = 0;
+  for (const pair of pairsA) {
+    if (pairsB.has(pair)) shared++;
+  }
+  return (2 * shared) / (pairsA.size + pairsB.size);
+}
+
+/**
+ * Fewest token pairs a phrase with `size` pairs must share with any other
+ * phrase to reach MIN_TEXT_SIMILARITY (Dice >= d needs d * size / (2 - d))
+ */
+function getMinSharedPairs(size: number): number {
+  return Math.ceil((MIN_TEXT_SIMILARITY * size) / (2 - MIN_TEXT_SIMILARITY) - 1e-9);
+}
+
+function getTokenPairs(text: string): Set<string> {
+  const tokens = tokenize(text);
+  if (tokens.length === 1) return new Set(tokens);
+
+  const pairs = new Set<string>();
+  for (let i = 1; i < tokens.length; i++) {
+    pairs.add(`${tokens[i - 1]} ${tokens[i]}`);
+  }
+  return pairs;
+}
+
+/**
+ * How `phrase` duplicates `clip`, if at all
+ */
+function classify(clip: Clip, phrase: Phrase): DuplicateMatch | null {
+  if (phrase.videoId === clip.videoId) {
+    if (
+      Math.abs(phrase.startTime - clip.startTime) <= EXACT_TOLERANCE &&
+      Math.abs(phrase.endTime - clip.endTime) <= EXACT_TOLERANCE
+    ) {
+      return { phrase, kind: 'exact', score: 1 };
+    }
+
+    const ratio = getOverlapRatio(clip, phrase);
+    if (ratio >= MIN_OVERLAP_RATIO) {
+      return { phrase, kind: 'overlap', score: ratio };
+    }
+  }
+
+  const similarity = getTextSimilarity(clip.originalText, phrase.originalText);
+  if (similarity >= MIN_TEXT_SIMILARITY) {
+    return { phrase, kind: 'similar-text', score: similarity };
+  }
+
+  return null;
+}
+
+function compareMatches(a: DuplicateMatch, b: DuplicateMatch): number {
+  return KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || b.score - a.score;
+}
+
+// ============================================================
+// SAVE-TIME CHECK
+// ============================================================
+
+/**
+ * Saved phrases that duplicate a clip: same video (exact or overlapping
+ * range) or near-identical text in any video. Strongest matches first.
+ */
+export async function findDuplicates(clip: Clip, excludeId?: string): Promise<DuplicateMatch[]> {
+  const [sameVideo, sameText] = await Promise.all([
+    db.phrases.where('videoId').equals(clip.videoId).toArray(),
+    findTextCandidates(clip.originalText),
+  ]);
+
+  const candidates = new Map<string, Phrase>();
+  for (const phrase of [...sameVideo, ...sameText]) {
+    if (phrase.id !== excludeId) candidates.set(phrase.id, phrase);
+  }
+
+  return [...candidates.values()]
+    .map(phrase => classify(clip, phrase))
+    .filter((match): match is DuplicateMatch => match !== null)
+    .sort(compareMatches);
+}
+
+/**
+ * Phrases sharing at least half of the text's tokens (via the search index)
+ */
+async function findTextCandidates(text: string): Promise<Phrase[]> {
+  const tokens = [...new Set(tokenize(text))];
+  if (tokens.length === 0) return [];
+
+  const idLists = await Promise.all(
+    tokens.map(token => db.phrases.where('searchTokens').equals(token).primaryKeys())
+  );
+
+  const counts = new Map<string, number>();
+  for (const ids of idLists) {
+    for (const id of ids) {
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+  }
+
+  const ids = [...counts].filter(([, count]) => count * 2 >= tokens.length).map(([id]) => id);
+  return (await db.phrases.bulkGet(ids)).filter((p): p is Phrase => p !== undefined);
+}
+
+/**
+ * Save a phrase, holding it back if duplicates exist and no resolution was given
+ */
+export async function savePhraseChecked(payload: SavePhrasePayload): Promise<SavePhraseResult> {
+  const { resolution, ...data } = payload;
+
+  if (!isDatabaseReady()) {
+    throw new Error('Database is not available. Save features are disabled.');
+  }
+
+  if (!resolution) {
+    const duplicates = await findDuplicates(data);
+    if (duplicates.length > 0) {
+      return { phrase: null, duplicates };
+    }
+  }
+
+  switch (resolution?.action) {
+    case 'merge':
+      return { phrase: await mergeIntoPhrase(resolution.targetId, data), duplicates: [] };
+    case 'replace':
+      return { phrase: await replacePhrase(resolution.targetId, data), duplicates: [] };
+    default:
+      return { phrase: await savePhrase(data), duplicates: [] };
+  }
+}
+
+// ============================================================
+// MERGE / REPLACE
+// ============================================================
+
+/**
+ * Fold another phrase's data into a target
+ * Same video: the range becomes the union and the text the longer one
+ * (or both, in time order). Notes are joined, tags combined, and the
+ * target's translation and group win when set.
+ */
+function mergeFields(target: Phrase, source: MergeSource): Partial<Phrase> {
+  const changes: Partial<Phrase> = {
+    translatedText: target.translatedText || source.translatedText,
+    note: [...new Set([target.note, source.note].map(n => n?.trim()).filter(Boolean))].join('\n') || undefined,
+    groupId: target.groupId ?? source.groupId ?? null,
+    tags: normalizeTags([...target.tags, ...(source.tags ?? [])]),
+  };
+
+  if (source.videoId === target.videoId) {
+    changes.startTime = Math.min(target.startTime, source.startTime);
+    changes.endTime = Math.max(target.endTime, source.endTime);
+    changes.originalText = mergeText(target, source);
+  }
+
+  return changes;
+}
+
+function mergeText(a: Clip, b: Clip): string {
+  const textA = normalizeText(a.originalText);
+  const textB = normalizeText(b.originalText);
+
+  if (textA.includes(textB)) return a.originalText;
+  if (textB.includes(textA)) return b.originalText;
+
+  const [first, second] = a.startTime <= b.startTime ? [a, b] : [b, a];
+  return `${first.originalText.trim()} ${second.originalText.trim()}`;
+}
+
+async function mergeIntoPhrase(targetId: string, data: PhraseData): Promise<Phrase> {
+  return await db.transaction('rw', db.phrases, async () => {
+    const target = await getPhraseOrThrow(targetId);
+    const merged: Phrase = { ...target, ...mergeFields(target, data), updatedAt: new Date() };
+
+    await db.phrases.put(merged);
+    console.log('[SubtitleLoop DB] Phrase merged into:', targetId);
+    return merged;
+  });
+}
+
+/**
+ * Overwrite a phrase's clip and text, keeping its ID and review history
+ * Group and tags are kept unless the new data sets them.
+ */
+async function replacePhrase(targetId: string, data: PhraseData): Promise<Phrase> {
+  return await db.transaction('rw', db.phrases, async () => {
+    const target = await getPhraseOrThrow(targetId);
+    const replaced: Phrase = {
+      ...target,
+      videoId: data.videoId,
+      videoUrl: data.videoUrl,
+      videoTitle: data.videoTitle,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      originalText: data.originalText,
+      translatedText: data.translatedText,
+      note: data.note,
+      groupId: data.groupId || target.groupId,
+      tags: data.tags && data.tags.length > 0 ? normalizeTags(data.tags) : target.tags,
+      updatedAt: new Date(),
+    };
+
+    await db.phrases.put(replaced);
+    console.log('[SubtitleLoop DB] Phrase replaced:', targetId);
+    return replaced;
+  });
+}
+
+/**
+ * Merge saved phrases into one and delete the others (with their review history)
+ */
+export async function mergePhrases(targetId: string, sourceIds: string[]): Promise<Phrase> {
+  return await db.transaction('rw', db.phrases, db.reviews, async () => {
+    let merged = await getPhraseOrThrow(targetId);
+
+    for (const sourceId of sourceIds.filter(id => id !== targetId)) {
+      const source = await getPhraseOrThrow(sourceId);
+      merged = { ...merged, ...mergeFields(merged, source) };
+
+      await db.reviews.where('phraseId').equals(sourceId).delete();
+      await db.phrases.delete(sourceId);
+    }
+
+    merged.updatedAt = new Date();
+    await db.phrases.put(merged);
+
+    console.log(`[SubtitleLoop DB] Merged ${sourceIds.length} phrases into:`, targetId);
+    return merged;
+  });
+}
+
+async function getPhraseOrThrow(id: string): Promise<Phrase> {
+  const phrase = await db.phrases.get(id);
+  if (!phrase) {
+    throw new Error(`Phrase not found: ${id}`);
+  }
+  return phrase;
+}
+
+// ============================================================
+// LIBRARY SCAN
+// ============================================================
+
+/**
+ * Find groups of duplicate phrases across the whole library
+ * Pairs are linked by the same rules as the save-time check; linked
+ * phrases form one cluster labelled with its strongest link.
+ */
+export async function findDuplicateClusters(): Promise<DuplicateCluster[]> {
+  const phrases = await db.phrases.orderBy('createdAt').toArray();
+  const parent = phrases.map((_, i) => i);
+  const links: Array<{ a: number; b: number; kind: DuplicateKind }> = [];
+
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const link = (a: number, b: number): void => {
+    const match = classify(phrases[a], phrases[b]);
+    if (match) {
+      links.push({ a, b, kind: match.kind });
+      parent[find(a)] = find(b);
+    }
+  };
+
+  // Same video: sweep clips by start time, comparing only those that overlap
+  const byVideo = new Map<string, number[]>();
+  phrases.forEach((phrase, i) => {
+    const indexes = byVideo.get(phrase.videoId);
+    if (indexes) {
+      indexes.push(i);
+    } else {
+      byVideo.set(phrase.videoId, [i]);
+    }
+  });
+
+  for (const indexes of byVideo.values()) {
+    indexes.sort((a, b) => phrases[a].startTime - phrases[b].startTime);
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        if (phrases[indexes[j]].startTime >= phrases[indexes[i]].endTime) break;
+        link(indexes[i], indexes[j]);
+      }
+    }
+  }
+
+  // Text: prefix filtering on token pairs. With every phrase's pairs sorted
+  // rarest first, two phrases similar enough to match must share one of the
+  // first (size - getMinSharedPairs(size) + 1) pairs, so only those are
+  // indexed and looked up. Common pairs ("you know") sort last and never
+  // make every phrase a candidate for every other.
+  const pairLists = phrases.map(phrase => [...getTokenPairs(phrase.originalText)]);
+  const frequency = new Map<string, number>();
+  for (const pairs of pairLists) {
+    for (const pair of pairs) {
+      frequency.set(pair, (frequency.get(pair) ?? 0) + 1);
+    }
+  }
+
+  const postings = new Map<string, number[]>();
+  pairLists.forEach((pairs, i) => {
+    pairs.sort((a, b) => frequency.get(a)! - frequency.get(b)! || (a < b ? -1 : a > b ? 1 : 0));
+    const prefix = pairs.slice(0, pairs.length - getMinSharedPairs(pairs.length) + 1);
+
+    const candidates = new Set<number>();
+    for (const pair of prefix) {
+      const indexes = postings.get(pair);
+      if (indexes) {
+        indexes.forEach(j => candidates.add(j));
+        indexes.push(i);
+      } else {
+        postings.set(pair, [i]);
+      }
+    }
+
+    for (const j of candidates) {
+      const alreadyLinked = phrases[i].videoId === phrases[j].videoId &&
+        getOverlapRatio(phrases[i], phrases[j]) > 0;
+      if (!alreadyLinked) {
+        link(j, i);
+      }
+    }
+  });
+
+  // Collect clusters (phrases stay oldest first)
+  const clusters = new Map<number, DuplicateCluster>();
+  phrases.forEach((phrase, i) => {
+    const root = find(i);
+    const cluster = clusters.get(root) ?? { kind: 'similar-text', phrases: [] };
+    cluster.phrases.push(phrase);
+    clusters.set(root, cluster);
+  });
+
+  for (const { a, kind } of links) {
+    const cluster = clusters.get(find(a))!;
+    if (KIND_ORDER.indexOf(kind) < KIND_ORDER.indexOf(cluster.kind)) {
+      cluster.kind = kind;
+    }
+  }
+
+  return [...clusters.values()]
+    .filter(cluster => cluster.phrases.length > 1)
+    .sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind));
+}
@@ -0,0 +1,83 @@
+import { db, getVideos } from './index';
+import type {
+  StorageInfo,
+  BulkDeletePhrasesPayload,
+  BulkDeleteResult,
+  CleanOrphanedGroupsResult,
+} from '../types';
+
+/**
+ * Storage usage and library housekeeping
+ */
+
+/**
+ * Report storage usage, table sizes and phrases per video
+ * navigator.storage.persist() is only exposed to windows, so the options
+ * page requests persistence; this reports whether it was granted.
+ */
+export async function getStorageInfo(): Promise<StorageInfo> {
+  const [estimate, persisted, phrases, groups, reviews, videos] = await Promise.all([
+    navigator.storage?.estimate?.() ?? Promise.resolve(null),
+    navigator.storage?.persisted?.() ?? Promise.resolve(false),
+    db.phrases.count(),
+    db.groups.count(),
+    db.reviews.count(),
+    getVideos(),
+  ]);
+
+  const groupIds = new Set(await db.groups.toCollection().primaryKeys());
+  const orphanedGroupRefs = await db.phrases
+    .filter(phrase => phrase.groupId !== null && !groupIds.has(phrase.groupId))
+    .count();
+
+  return {
+    usage: estimate?.usage ?? null,
+    quota: estimate?.quota ?? null,
+    persisted,
+    tables: { phrases, groups, reviews },
+    videos,
+    orphanedGroupRefs,
+  };
+}
+
+/**
+ * Delete phrases (and their review history) by video and/or age
+ */
+export async function bulkDeletePhrases(filters: BulkDeletePhrasesPayload): Promise<BulkDeleteResult> {
+  const { videoIds, createdBefore } = filters;
+  if (videoIds === undefined && createdBefore === undefined) {
+    throw new Error('Specify videoIds or createdBefore');
+  }
+
+  const videos = videoIds === undefined ? null : new Set(videoIds);
+
+  const ids = await db.transaction('rw', db.phrases, db.reviews, async () => {
+    const collection = createdBefore !== undefined
+      ? db.phrases.where('createdAt').below(new Date(createdBefore)).filter(phrase => !videos || videos.has(phrase.videoId))
+      : db.phrases.where('videoId').anyOf(videoIds ?? []);
+    const ids = await collection.primaryKeys();
+
+    await db.reviews.where('phraseId').anyOf(ids).delete();
+    await db.phrases.bulkDelete(ids);
+    return ids;
+  });
+
+  console.log('[SubtitleLoop DB] Phrases deleted in bulk:', ids.length);
+  return { deleted: ids.length };
+}
+
+/**
+ * Move phrases that reference a deleted group back to "ungrouped"
+ * (left behind by imports or older versions that didn't clear them)
+ */
+export async function cleanOrphanedGroups(): Promise<CleanOrphanedGroupsResult> {
+  const fixed = await db.transaction('rw', db.phrases, db.groups, async () => {
+    const groupIds = new Set(await db.groups.toCollection().primaryKeys());
+    return db.phrases
+      .filter(phrase => phrase.groupId !== null && !groupIds.has(phrase.groupId))
+      .modify({ groupId: null });
+  });
+
+  console.log('[SubtitleLoop DB] Orphaned group references cleared:', fixed);
+  return { fixed };
+}
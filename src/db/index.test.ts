@@ -0,0 +1,92 @@
+import 'fake-indexeddb/auto';
+import Dexie from 'dexie';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, createPhrase, searchPhrases, checkDatabaseAvailability } from './index';
+import { exportLibrary, importLibrary } from './library';
+import { flushQueue } from './storage';
+import type { Phrase } from '../types';
+
+/** chrome.storage.local backed by a plain object */
+const storageArea: Record<string, unknown> = {};
+
+function phraseWithText(originalText: string): Phrase {
+  return createPhrase({
+    videoId: 'video-a',
+    videoUrl: 'https://www.youtube.com/watch?v=video-a',
+    videoTitle: 'Video A',
+    startTime: 10,
+    endTime: 12,
+    originalText,
+  });
+}
+
+async function searchIds(query: string): Promise<string[]> {
+  return (await searchPhrases({ query })).map(phrase => phrase.id);
+}
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.stubGlobal('chrome', {
+    storage: {
+      local: {
+        get: async (key: string) => (key in storageArea ? { [key]: storageArea[key] } : {}),
+        set: async (items: Record<string, unknown>) => { Object.assign(storageArea, items); },
+        remove: async (key: string) => { delete storageArea[key]; },
+      },
+    },
+  });
+  await checkDatabaseAvailability();
+});
+
+beforeEach(async () => {
+  await db.phrases.clear();
+});
+
+afterAll(async () => {
+  db.close();
+  await Dexie.delete('SubtitleLoopDB');
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('search token index', () => {
+  it('keeps a phrase searchable after an import overwrites it', async () => {
+    const phrase = phraseWithText('Break a leg');
+    await db.phrases.add(phrase);
+    const bundle = await exportLibrary();
+
+    const result = await importLibrary(bundle, 'overwrite');
+
+    expect(result.overwritten).toBe(1);
+    expect((await db.phrases.get(phrase.id))?.searchTokens).toEqual(expect.arrayContaining(['break', 'leg']));
+    expect(await searchIds('leg')).toEqual([phrase.id]);
+  });
+
+  it('keeps queued phrases searchable when a flush is repeated', async () => {
+    const phrase = phraseWithText('Hit the sack');
+    const queued = {
+      ...phrase,
+      dueAt: phrase.dueAt.toISOString(),
+      createdAt: phrase.createdAt.toISOString(),
+      updatedAt: phrase.updatedAt.toISOString(),
+    };
+
+    storageArea.pendingPhrases = [queued];
+    expect(await flushQueue()).toBe(1);
+    // A flush interrupted before the queue was cleared puts the same rows again
+    storageArea.pendingPhrases = [queued];
+    expect(await flushQueue()).toBe(1);
+
+    expect(await searchIds('sack')).toEqual([phrase.id]);
+  });
+
+  it('rebuilds tokens when a searchable field changes', async () => {
+    const phrase = phraseWithText('Break a leg');
+    await db.phrases.add(phrase);
+
+    await db.phrases.update(phrase.id, { originalText: 'Hit the sack' });
+
+    expect(await searchIds('leg')).toEqual([]);
+    expect(await searchIds('sack')).toEqual([phrase.id]);
+  });
+});
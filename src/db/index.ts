@@ -1,5 +1,29 @@
-import Dexie, { type Table } from 'dexie';
-import type { Phrase, Group } from '../types';
+import Dexie, { type Table, type IndexableType } from 'dexie';
+import type {
+  Phrase,
+  Group,
+  ReviewLog,
+  ReviewGrade,
+  PhraseSortKey,
+  PhrasePage,
+  QueryPhrasesPayload,
+  PhraseUpdates,
+  TagCount,
+  VideoPhraseCount,
+} from '../types';
+import { createInitialSrsState, scheduleReview, endOfDay } from './srs';
+import {
+  SEARCH_FIELDS,
+  buildSearchTokens,
+  getSearchableText,
+  parseSearchQuery,
+  isEmptyQuery,
+  tokenize,
+} from './search';
+import { normalizeTags } from './tags';
+import { MIN_PHRASE_DURATION } from './validation';
+import { registerMigrations } from './migrations';
+import { openWithBackup } from './backup';
 
 /**
  * Subtitle Loop Database
@@ -8,14 +32,29 @@ import type { Phrase, Group } from '../types';
 export class SubtitleLoopDB extends Dexie {
   phrases!: Table<Phrase, string>;
   groups!: Table<Group, string>;
+  reviews!: Table<ReviewLog, string>;
 
   constructor() {
-    super('SubtitleLoopDB');
+    // Opened explicitly by checkDatabaseAvailability (after the upgrade backup)
+    super('SubtitleLoopDB', { autoOpen: false });
+    registerMigrations(this);
 
-    // Define schema
-    this.version(1).stores({
-      phrases: 'id, videoId, groupId, createdAt, startTime',
-      groups: 'id, order, createdAt',
+    // Keep the token index in sync with the searchable fields
+    this.phrases.hook('creating', (_primKey, phrase) => {
+      phrase.searchTokens = buildSearchTokens(phrase);
+    });
+
+    // put() of a whole row diffs against the stored one, so a row without
+    // tokens (import overwrite, fallback queue flush) reports them as removed
+    this.phrases.hook('updating', (modifications, _primKey, phrase) => {
+      if (
+        SEARCH_FIELDS.some(field => field in modifications) ||
+        'searchTokens' in modifications ||
+        !phrase.searchTokens
+      ) {
+        return { searchTokens: buildSearchTokens({ ...phrase, ...modifications }) };
+      }
+      return undefined;
     });
   }
 }
@@ -32,8 +71,11 @@ let databaseError: string | null = null;
  */
 export async function checkDatabaseAvailability(): Promise<boolean> {
   try {
-    // Try to open and perform a simple operation
-    await db.open();
+    // Open (upgrading if needed) and perform a simple operation
+    const recovery = await openWithBackup(db);
+    if (recovery?.skipped) {
+      console.warn(`[Subtitle Loop] ${recovery.skipped} records could not be upgraded and were left in the backup`);
+    }
     await db.phrases.count(); // Simple read to verify access
     isDatabaseAvailable = true;
     databaseError = null;
@@ -64,7 +106,7 @@ export function getDatabaseError(): string | null {
 /**
  * Generate UUID v4
  */
-function generateId(): string {
+export function generateId(): string {
   return crypto.randomUUID();
 }
 
@@ -75,7 +117,20 @@ function generateId(): string {
 /**
  * Save a new phrase
  */
-export async function savePhrase(data: {
+export async function savePhrase(data: NewPhraseData): Promise<Phrase> {
+  if (!isDatabaseAvailable) {
+    throw new Error('Database is not available. Save features are disabled.');
+  }
+
+  const phrase = createPhrase(data);
+
+  await db.phrases.add(phrase);
+  console.log('[Subtitle Loop] Phrase saved:', phrase.id);
+
+  return phrase;
+}
+
+export interface NewPhraseData {
   videoId: string;
   videoUrl: string;
   videoTitle: string;
@@ -85,14 +140,14 @@ export async function savePhrase(data: {
   translatedText?: string;
   note?: string;
   groupId?: string;
-}): Promise<Phrase> {
-  if (!isDatabaseAvailable) {
-    throw new Error('Database is not available. Save features are disabled.');
-  }
-
-  const now = new Date();
+  tags?: string[];
+}
 
-  const phrase: Phrase = {
+/**
+ * Build a new phrase record (new id, due now)
+ */
+export function createPhrase(data: NewPhraseData, now = new Date()): Phrase {
+  return {
     id: generateId(),
     videoId: data.videoId,
     videoUrl: data.videoUrl,
@@ -103,79 +158,280 @@ export async function savePhrase(data: {
     translatedText: data.translatedText,
     note: data.note,
     groupId: data.groupId || null,
+    tags: normalizeTags(data.tags ?? []),
+    ...createInitialSrsState(now),
     createdAt: now,
     updatedAt: now,
   };
-
-  await db.phrases.add(phrase);
-  console.log('[Subtitle Loop] Phrase saved:', phrase.id);
-
-  return phrase;
 }
 
 /**
- * Get all phrases (with optional filters)
+ * Get all phrases matching the filters (newest first)
  */
 export async function getPhrases(filters?: {
   groupId?: string | null;
   videoId?: string;
-  limit?: number;
-  offset?: number;
 }): Promise<Phrase[]> {
-  let query = db.phrases.toCollection();
+  const { phrases } = await queryPhrases({
+    groupId: filters?.groupId ?? undefined,
+    videoId: filters?.videoId,
+  });
+  return phrases;
+}
+
+/** Sort index fields per sort key (id is appended as a tie-breaker) */
+const SORT_FIELDS: Record<PhraseSortKey, Array<keyof Phrase>> = {
+  createdAt: ['createdAt'],
+  updatedAt: ['updatedAt'],
+  videoTitle: ['videoTitle', 'startTime'],
+  startTime: ['startTime'],
+  dueAt: ['dueAt'],
+};
 
-  // Apply filters
-  if (filters?.groupId !== undefined) {
-    if (filters.groupId === null) {
-      // Get all phrases
-      query = db.phrases.toCollection();
+/**
+ * Query phrases with combined filters, sorting and cursor pagination
+ * Walks a compound [scope+sort+id] index from the cursor, so a page reads
+ * only its own rows when the filter matches an index scope (group sorted by
+ * creation, video sorted by start time). Other filters are checked while
+ * walking the sort index. A cursor is only valid for the query that made it.
+ */
+export async function queryPhrases(query: QueryPhrasesPayload = {}): Promise<PhrasePage> {
+  const sortBy = query.sortBy ?? 'createdAt';
+  const descending = (query.direction ?? 'desc') === 'desc';
+
+  let scope: Array<'groupId' | 'videoId'> = [];
+  if (query.videoId && sortBy === 'startTime') {
+    scope = ['videoId'];
+  } else if (query.groupId && sortBy === 'createdAt') {
+    scope = ['groupId'];
+  }
+
+  const fields: Array<keyof Phrase> = [...scope, ...SORT_FIELDS[sortBy], 'id'];
+  const prefix = scope.map(field => query[field] as string);
+  const unbounded = fields.length - prefix.length;
+
+  let lower: IndexableType[] = [...prefix, ...Array(unbounded).fill(Dexie.minKey)];
+  let upper: IndexableType[] = [...prefix, ...Array(unbounded).fill(Dexie.maxKey)];
+
+  const after = query.cursor ? decodeCursor(query.cursor, fields.length) : null;
+  if (after) {
+    if (descending) {
+      upper = after;
     } else {
-      // Get phrases in specific group
-      query = db.phrases.where('groupId').equals(filters.groupId);
+      lower = after;
     }
   }
 
-  if (filters?.videoId) {
-    query = db.phrases.where('videoId').equals(filters.videoId);
+  let collection = db.phrases
+    .where(`[${fields.join('+')}]`)
+    .between(lower, upper, !(after && !descending), !(after && descending));
+
+  if (descending) {
+    collection = collection.reverse();
   }
 
-  // Sort by creation date (newest first)
-  const phrases = await query.reverse().sortBy('createdAt');
+  collection = collection.filter(phrase => matchesQuery(phrase, query));
 
-  // Apply pagination
-  if (filters?.offset) {
-    phrases.splice(0, filters.offset);
+  // Fetch one extra row to know whether another page exists
+  if (query.limit) {
+    collection = collection.limit(query.limit + 1);
   }
-  if (filters?.limit) {
-    phrases.splice(filters.limit);
+
+  const phrases = await collection.toArray();
+  let nextCursor: string | null = null;
+
+  if (query.limit && phrases.length > query.limit) {
+    phrases.splice(query.limit);
+    const last = phrases[phrases.length - 1];
+    nextCursor = encodeCursor(fields.map(field => last[field] as IndexableType));
   }
 
-  return phrases;
+  return { phrases, nextCursor };
+}
+
+function matchesQuery(phrase: Phrase, query: QueryPhrasesPayload): boolean {
+  if (query.groupId && phrase.groupId !== query.groupId) return false;
+  if (query.videoId && phrase.videoId !== query.videoId) return false;
+  if (query.tag && !phrase.tags.includes(query.tag)) return false;
+
+  const created = phrase.createdAt.getTime();
+  if (query.createdFrom !== undefined && created < query.createdFrom) return false;
+  if (query.createdTo !== undefined && created > query.createdTo) return false;
+
+  return true;
 }
 
 /**
- * Update an existing phrase
+ * Serialize an index key (Dates don't survive JSON or extension messaging)
  */
-export async function updatePhrase(
-  id: string,
-  updates: Partial<Omit<Phrase, 'id' | 'createdAt'>>
-): Promise<void> {
-  await db.phrases.update(id, {
-    ...updates,
-    updatedAt: new Date(),
+function encodeCursor(key: IndexableType[]): string {
+  return JSON.stringify(key.map(part => (part instanceof Date ? { date: part.getTime() } : part)));
+}
+
+function decodeCursor(cursor: string, length: number): IndexableType[] {
+  const parts = JSON.parse(cursor);
+  if (!Array.isArray(parts) || parts.length !== length) {
+    throw new Error('Invalid cursor');
+  }
+  return parts.map(part => (part !== null && typeof part === 'object' && 'date' in part ? new Date(part.date) : part));
+}
+
+/**
+ * Full-text search over text, translation, note and video title
+ * Every word must match (prefix) and every "quoted phrase" must appear
+ * verbatim after normalization. Newest first.
+ */
+export async function searchPhrases(options: {
+  query: string;
+  groupId?: string | null;
+  videoId?: string;
+  tag?: string;
+  createdFrom?: number;
+  createdTo?: number;
+  limit?: number;
+}): Promise<Phrase[]> {
+  const query = parseSearchQuery(options.query);
+  if (isEmptyQuery(query)) {
+    return [];
+  }
+
+  // Candidate IDs from the token index, one lookup per required token
+  const lookups = [
+    ...query.terms.map(term => db.phrases.where('searchTokens').startsWith(term).primaryKeys()),
+    ...query.phrases.flatMap(phrase => tokenize(phrase)).map(
+      token => db.phrases.where('searchTokens').equals(token).primaryKeys()
+    ),
+  ];
+
+  let candidates: Phrase[];
+  if (lookups.length > 0) {
+    const idSets = (await Promise.all(lookups)).map(ids => new Set(ids));
+    const ids = [...idSets[0]].filter(id => idSets.every(set => set.has(id)));
+    candidates = (await db.phrases.bulkGet(ids)).filter((p): p is Phrase => p !== undefined);
+  } else {
+    // Quoted punctuation only - nothing indexable
+    candidates = await db.phrases.toArray();
+  }
+
+  const results = candidates.filter((phrase) => {
+    if (options.groupId && phrase.groupId !== options.groupId) return false;
+    if (options.videoId && phrase.videoId !== options.videoId) return false;
+    if (options.tag && !phrase.tags.includes(options.tag)) return false;
+
+    const created = phrase.createdAt.getTime();
+    if (options.createdFrom !== undefined && created < options.createdFrom) return false;
+    if (options.createdTo !== undefined && created > options.createdTo) return false;
+
+    const text = getSearchableText(phrase);
+    return query.phrases.every(needle => text.includes(needle));
+  });
+
+  results.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+  return options.limit ? results.slice(0, options.limit) : results;
+}
+
+/**
+ * Update an existing phrase (updates are expected to be validated)
+ * null clears translatedText/note.
+ */
+export async function updatePhrase(id: string, updates: PhraseUpdates): Promise<void> {
+  await db.transaction('rw', db.phrases, async () => {
+    const phrase = await db.phrases.get(id);
+    if (!phrase) {
+      throw new Error(`Phrase not found: ${id}`);
+    }
+
+    const startTime = updates.startTime ?? phrase.startTime;
+    const endTime = updates.endTime ?? phrase.endTime;
+    if (endTime - startTime < MIN_PHRASE_DURATION) {
+      throw new Error(`endTime must be at least ${MIN_PHRASE_DURATION}s after startTime`);
+    }
+
+    const { translatedText, note, tags, ...rest } = updates;
+    const changes: Partial<Phrase> = { ...rest, updatedAt: new Date() };
+
+    // Dexie deletes properties set to undefined
+    if (translatedText !== undefined) changes.translatedText = translatedText ?? undefined;
+    if (note !== undefined) changes.note = note ?? undefined;
+    if (tags) changes.tags = normalizeTags(tags);
+
+    await db.phrases.update(id, changes);
   });
 
   console.log('[SubtitleLoop DB] Phrase updated:', id);
 }
 
 /**
- * Delete a phrase
+ * Delete a phrase and its review history
  */
 export async function deletePhrase(id: string): Promise<void> {
-  await db.phrases.delete(id);
+  await db.transaction('rw', db.phrases, db.reviews, async () => {
+    await db.reviews.where('phraseId').equals(id).delete();
+    await db.phrases.delete(id);
+  });
   console.log('[SubtitleLoop DB] Phrase deleted:', id);
 }
 
+// ============================================================
+// REVIEW OPERATIONS
+// ============================================================
+
+/**
+ * Get phrases due for review by the end of today (oldest due first)
+ */
+export async function getDuePhrases(limit?: number): Promise<Phrase[]> {
+  let query = db.phrases.where('dueAt').belowOrEqual(endOfDay());
+
+  if (limit) {
+    query = query.limit(limit);
+  }
+
+  return await query.toArray();
+}
+
+/**
+ * Record a review grade and reschedule the phrase
+ */
+export async function recordReview(id: string, grade: ReviewGrade): Promise<Phrase> {
+  return await db.transaction('rw', db.phrases, db.reviews, async () => {
+    const phrase = await db.phrases.get(id);
+    if (!phrase) {
+      throw new Error(`Phrase not found: ${id}`);
+    }
+
+    const now = new Date();
+    const next = scheduleReview(phrase, grade, now);
+
+    const updated: Phrase = {
+      ...phrase,
+      ...next,
+      lastReviewedAt: now,
+      updatedAt: now,
+    };
+
+    await db.phrases.put(updated);
+    await db.reviews.add({
+      id: generateId(),
+      phraseId: id,
+      grade,
+      ease: next.ease,
+      interval: next.interval,
+      reviewedAt: now,
+    });
+
+    console.log(`[SubtitleLoop DB] Review recorded: ${id} (${grade}), next in ${next.interval}d`);
+    return updated;
+  });
+}
+
+/**
+ * Get review history for a phrase (oldest first)
+ */
+export async function getReviewHistory(phraseId: string): Promise<ReviewLog[]> {
+  return await db.reviews.where('phraseId').equals(phraseId).sortBy('reviewedAt');
+}
+
 // ============================================================
 // GROUP OPERATIONS
 // ============================================================
@@ -252,6 +508,44 @@ export async function deleteGroup(id: string): Promise<void> {
   console.log('[SubtitleLoop DB] Group deleted:', id);
 }
 
+// ============================================================
+// TAG OPERATIONS
+// ============================================================
+
+/**
+ * Get all tags in use with phrase counts (alphabetical)
+ */
+export async function getTags(): Promise<TagCount[]> {
+  const names = (await db.phrases.orderBy('tags').uniqueKeys()) as string[];
+
+  return await Promise.all(
+    names.map(async (name) => ({
+      name,
+      count: await db.phrases.where('tags').equals(name).count(),
+    }))
+  );
+}
+
+/**
+ * Add and/or remove tags on several phrases at once
+ */
+export async function updateTags(
+  phraseIds: string[],
+  changes: { add?: string[]; remove?: string[] }
+): Promise<void> {
+  const add = normalizeTags(changes.add ?? []);
+  const remove = new Set(normalizeTags(changes.remove ?? []).map(tag => tag.toLowerCase()));
+  const now = new Date();
+
+  await db.phrases.where('id').anyOf(phraseIds).modify((phrase) => {
+    const kept = phrase.tags.filter(tag => !remove.has(tag.toLowerCase()));
+    phrase.tags = normalizeTags([...kept, ...add]);
+    phrase.updatedAt = now;
+  });
+
+  console.log(`[SubtitleLoop DB] Tags updated on ${phraseIds.length} phrases`);
+}
+
 // ============================================================
 // STATISTICS
 // ============================================================
@@ -281,3 +575,31 @@ export async function getStats(): Promise<{
     phrasesByGroup,
   };
 }
+
+/**
+ * Videos with saved phrases, most phrases first
+ * (title from the most recently saved phrase)
+ */
+export async function getVideos(): Promise<VideoPhraseCount[]> {
+  const videos = new Map<string, VideoPhraseCount>();
+
+  await db.phrases.each((phrase) => {
+    const video = videos.get(phrase.videoId);
+    if (!video) {
+      videos.set(phrase.videoId, {
+        videoId: phrase.videoId,
+        videoTitle: phrase.videoTitle,
+        count: 1,
+        lastSavedAt: phrase.createdAt,
+      });
+    } else {
+      video.count++;
+      if (phrase.createdAt > video.lastSavedAt) {
+        video.lastSavedAt = phrase.createdAt;
+        video.videoTitle = phrase.videoTitle;
+      }
+    }
+  });
+
+  return [...videos.values()].sort((a, b) => b.count - a.count || a.videoTitle.localeCompare(b.videoTitle));
+}
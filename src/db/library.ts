@@ -0,0 +1,291 @@
+import { db, generateId } from './index';
+import { createInitialSrsState } from './srs';
+import { normalizeTags } from './tags';
+import type {
+  Phrase,
+  Group,
+  ReviewLog,
+  ReviewGrade,
+  LibraryBundle,
+  ImportStrategy,
+  ImportResult,
+  Serialized,
+} from '../types';
+
+/**
+ * Library export/import (JSON backup with merge semantics)
+ */
+
+const BUNDLE_FORMAT = 'subtitle-loop-library';
+const BUNDLE_VERSION = 1;
+const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+// ============================================================
+// EXPORT
+// ============================================================
+
+/**
+ * Export all groups, phrases and review history as a versioned bundle
+ */
+export async function exportLibrary(): Promise<LibraryBundle> {
+  const [groups, phrases, reviews] = await Promise.all([
+    db.groups.orderBy('order').toArray(),
+    db.phrases.orderBy('createdAt').toArray(),
+    db.reviews.orderBy('reviewedAt').toArray(),
+  ]);
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    groups: groups.map(serialize),
+    // The search index is rebuilt on import
+    phrases: phrases.map(({ searchTokens: _searchTokens, ...phrase }) => serialize(phrase)),
+    reviews: reviews.map(serialize),
+  };
+}
+
+/**
+ * Convert Date fields to ISO strings
+ */
+function serialize<T extends object>(record: T): Serialized<T> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    result[key] = value instanceof Date ? value.toISOString() : value;
+  }
+  return result as Serialized<T>;
+}
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+/**
+ * Validate an untrusted bundle and convert it to persisted records
+ * Throws with a description of the first problem found
+ */
+export function parseLibraryBundle(data: unknown): {
+  groups: Group[];
+  phrases: Phrase[];
+  reviews: ReviewLog[];
+} {
+  if (!isObject(data) || data.format !== BUNDLE_FORMAT) {
+    throw new Error('Invalid library file: not a Subtitle Loop export');
+  }
+  if (data.version !== BUNDLE_VERSION) {
+    throw new Error(`Unsupported library version: ${String(data.version)}`);
+  }
+  if (!Array.isArray(data.groups) || !Array.isArray(data.phrases)) {
+    throw new Error('Invalid library file: missing groups or phrases');
+  }
+
+  const reviews = Array.isArray(data.reviews) ? data.reviews : [];
+
+  return {
+    groups: data.groups.map((item, i) => parseGroup(item, i)),
+    phrases: data.phrases.map((item, i) => parsePhrase(item, i)),
+    reviews: reviews.map((item, i) => parseReview(item, i)),
+  };
+}
+
+function parseGroup(item: unknown, index: number): Group {
+  const where = `groups[${index}]`;
+  if (!isObject(item)) throw new Error(`Invalid library file: ${where} is not an object`);
+
+  return {
+    id: requireString(item, 'id', where),
+    name: requireString(item, 'name', where),
+    description: optionalString(item, 'description', where),
+    color: requireString(item, 'color', where),
+    order: requireNumber(item, 'order', where),
+    createdAt: requireDate(item, 'createdAt', where),
+    updatedAt: requireDate(item, 'updatedAt', where),
+  };
+}
+
+function parsePhrase(item: unknown, index: number): Phrase {
+  const where = `phrases[${index}]`;
+  if (!isObject(item)) throw new Error(`Invalid library file: ${where} is not an object`);
+
+  const createdAt = requireDate(item, 'createdAt', where);
+  const groupId = item.groupId === null || item.groupId === undefined
+    ? null
+    : requireString(item, 'groupId', where);
+
+  // SRS fields are optional so older exports still import
+  const srs = createInitialSrsState(createdAt);
+
+  return {
+    id: requireString(item, 'id', where),
+    videoId: requireString(item, 'videoId', where),
+    videoUrl: requireString(item, 'videoUrl', where),
+    videoTitle: requireString(item, 'videoTitle', where),
+    startTime: requireNumber(item, 'startTime', where),
+    endTime: requireNumber(item, 'endTime', where),
+    originalText: requireString(item, 'originalText', where),
+    translatedText: optionalString(item, 'translatedText', where),
+    note: optionalString(item, 'note', where),
+    groupId,
+    tags: item.tags === undefined ? [] : normalizeTags(requireStringArray(item, 'tags', where)),
+    ease: item.ease === undefined ? srs.ease : requireNumber(item, 'ease', where),
+    interval: item.interval === undefined ? srs.interval : requireNumber(item, 'interval', where),
+    repetitions: item.repetitions === undefined ? srs.repetitions : requireNumber(item, 'repetitions', where),
+    dueAt: item.dueAt === undefined ? srs.dueAt : requireDate(item, 'dueAt', where),
+    lastReviewedAt: item.lastReviewedAt === undefined ? undefined : requireDate(item, 'lastReviewedAt', where),
+    createdAt,
+    updatedAt: requireDate(item, 'updatedAt', where),
+  };
+}
+
+function parseReview(item: unknown, index: number): ReviewLog {
+  const where = `reviews[${index}]`;
+  if (!isObject(item)) throw new Error(`Invalid library file: ${where} is not an object`);
+
+  const grade = requireString(item, 'grade', where);
+  if (!REVIEW_GRADES.includes(grade as ReviewGrade)) {
+    throw new Error(`Invalid library file: ${where}.grade is not a valid grade`);
+  }
+
+  return {
+    id: requireString(item, 'id', where),
+    phraseId: requireString(item, 'phraseId', where),
+    grade: grade as ReviewGrade,
+    ease: requireNumber(item, 'ease', where),
+    interval: requireNumber(item, 'interval', where),
+    reviewedAt: requireDate(item, 'reviewedAt', where),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requireString(item: Record<string, unknown>, key: string, where: string): string {
+  const value = item[key];
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid library file: ${where}.${key} must be a string`);
+  }
+  return value;
+}
+
+function optionalString(item: Record<string, unknown>, key: string, where: string): string | undefined {
+  return item[key] === undefined || item[key] === null ? undefined : requireString(item, key, where);
+}
+
+function requireStringArray(item: Record<string, unknown>, key: string, where: string): string[] {
+  const value = item[key];
+  if (!Array.isArray(value) || !value.every(v => typeof v === 'string')) {
+    throw new Error(`Invalid library file: ${where}.${key} must be an array of strings`);
+  }
+  return value;
+}
+
+function requireNumber(item: Record<string, unknown>, key: string, where: string): number {
+  const value = item[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`Invalid library file: ${where}.${key} must be a number`);
+  }
+  return value;
+}
+
+function requireDate(item: Record<string, unknown>, key: string, where: string): Date {
+  const date = new Date(requireString(item, key, where));
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid library file: ${where}.${key} is not a valid date`);
+  }
+  return date;
+}
+
+// ============================================================
+// IMPORT
+// ============================================================
+
+/**
+ * Duplicate key: same clip of the same video with the same text
+ */
+function getDuplicateKey(phrase: Pick<Phrase, 'videoId' | 'startTime' | 'originalText'>): string {
+  return `${phrase.videoId}|${phrase.startTime}|${phrase.originalText.trim()}`;
+}
+
+/**
+ * Merge a bundle into the library
+ * - Groups are matched by name; unmatched groups are created with new IDs
+ * - Duplicate phrases are skipped, overwritten in place, or added as copies
+ */
+export async function importLibrary(
+  data: unknown,
+  strategy: ImportStrategy
+): Promise<ImportResult> {
+  const bundle = parseLibraryBundle(data);
+
+  const result: ImportResult = {
+    added: 0,
+    overwritten: 0,
+    skipped: 0,
+    groupsCreated: 0,
+  };
+
+  await db.transaction('rw', db.phrases, db.groups, db.reviews, async () => {
+    // Remap group IDs
+    const existingGroups = await db.groups.orderBy('order').toArray();
+    const groupsByName = new Map(existingGroups.map(g => [g.name, g.id]));
+    const groupIdMap = new Map<string, string>();
+    let nextOrder = existingGroups.length > 0
+      ? existingGroups[existingGroups.length - 1].order + 1
+      : 0;
+
+    for (const group of bundle.groups) {
+      const existingId = groupsByName.get(group.name);
+      if (existingId) {
+        groupIdMap.set(group.id, existingId);
+        continue;
+      }
+
+      const newGroup: Group = { ...group, id: generateId(), order: nextOrder++ };
+      await db.groups.add(newGroup);
+      groupsByName.set(newGroup.name, newGroup.id);
+      groupIdMap.set(group.id, newGroup.id);
+      result.groupsCreated++;
+    }
+
+    // Index existing phrases for duplicate detection
+    const existingPhrases = await db.phrases.toArray();
+    const phrasesByKey = new Map(existingPhrases.map(p => [getDuplicateKey(p), p]));
+    const phraseIdMap = new Map<string, string>();
+
+    for (const phrase of bundle.phrases) {
+      const groupId = phrase.groupId ? groupIdMap.get(phrase.groupId) ?? null : null;
+      const existing = phrasesByKey.get(getDuplicateKey(phrase));
+
+      if (existing && strategy === 'skip') {
+        result.skipped++;
+        continue;
+      }
+
+      if (existing && strategy === 'overwrite') {
+        await db.phrases.put({ ...phrase, id: existing.id, groupId });
+        await db.reviews.where('phraseId').equals(existing.id).delete();
+        phraseIdMap.set(phrase.id, existing.id);
+        result.overwritten++;
+        continue;
+      }
+
+      const newPhrase: Phrase = { ...phrase, id: generateId(), groupId };
+      await db.phrases.add(newPhrase);
+      phrasesByKey.set(getDuplicateKey(newPhrase), newPhrase);
+      phraseIdMap.set(phrase.id, newPhrase.id);
+      result.added++;
+    }
+
+    // Carry over review history of imported phrases
+    for (const review of bundle.reviews) {
+      const phraseId = phraseIdMap.get(review.phraseId);
+      if (phraseId) {
+        await db.reviews.add({ ...review, id: generateId(), phraseId });
+      }
+    }
+  });
+
+  console.log('[SubtitleLoop DB] Library imported:', result);
+  return result;
+}
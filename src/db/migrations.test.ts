@@ -0,0 +1,208 @@
+import 'fake-indexeddb/auto';
+import Dexie from 'dexie';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MIGRATIONS, LATEST_VERSION, registerMigrations, upgradeRecord } from './migrations';
+import { openWithBackup } from './backup';
+import { SubtitleLoopDB } from './index';
+
+const DB_NAME = 'SubtitleLoopDB';
+const BACKUP_DB_NAME = 'SubtitleLoopBackups';
+
+const CREATED_AT = new Date('2024-03-01T10:00:00Z');
+
+/** v1 rows: no SRS fields, search tokens or tags */
+const V1_PHRASES = [
+  {
+    id: 'p1',
+    videoId: 'video-a',
+    videoUrl: 'https://www.youtube.com/watch?v=video-a',
+    videoTitle: 'Video A',
+    startTime: 12.345,
+    endTime: 15.678901,
+    originalText: 'Break a leg',
+    note: 'good luck',
+    groupId: 'g1',
+    createdAt: CREATED_AT,
+    updatedAt: CREATED_AT,
+  },
+  {
+    id: 'p2',
+    videoId: 'video-b',
+    videoUrl: 'https://www.youtube.com/watch?v=video-b',
+    videoTitle: 'Video B',
+    startTime: 0.04,
+    endTime: 2.96,
+    originalText: 'Piece of cake',
+    translatedText: '朝飯前',
+    groupId: null,
+    createdAt: CREATED_AT,
+    updatedAt: CREATED_AT,
+  },
+];
+
+const V1_GROUPS = [
+  { id: 'g1', name: 'Idioms', color: '#ff5722', order: 0, createdAt: CREATED_AT, updatedAt: CREATED_AT },
+  { id: 'g2', name: 'Greetings', color: '#2196f3', order: 1, createdAt: CREATED_AT, updatedAt: CREATED_AT },
+];
+
+async function seedV1(phrases: object[] = V1_PHRASES): Promise<void> {
+  const v1 = new Dexie(DB_NAME);
+  registerMigrations(v1, 1);
+  await v1.open();
+  await v1.table('phrases').bulkAdd(phrases);
+  await v1.table('groups').bulkAdd(V1_GROUPS);
+  v1.close();
+}
+
+async function openAt(version: number): Promise<Dexie> {
+  const db = new Dexie(DB_NAME);
+  registerMigrations(db, version);
+  await db.open();
+  return db;
+}
+
+/** Fields every version must leave untouched */
+function expectOriginalFields(phrase: Record<string, unknown>, original: typeof V1_PHRASES[number]): void {
+  expect(phrase).toMatchObject(original);
+  // End-time precision survives every rewrite (no rounding)
+  expect(phrase.startTime).toBe(original.startTime);
+  expect(phrase.endTime).toBe(original.endTime);
+}
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await Dexie.delete(DB_NAME);
+  await Dexie.delete(BACKUP_DB_NAME);
+});
+
+describe('schema migrations', () => {
+  it('declares consecutive versions ending at LATEST_VERSION', () => {
+    expect(MIGRATIONS.map(m => m.version)).toEqual([1, 2, 3, 4, 5]);
+    expect(LATEST_VERSION).toBe(5);
+  });
+
+  it('keeps phrases and groups intact at every step from v1', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await seedV1();
+
+    for (let version = 2; version <= LATEST_VERSION; version++) {
+      const db = await openAt(version);
+      const phrases = await db.table('phrases').orderBy('id').toArray();
+      const groups = await db.table('groups').orderBy('id').toArray();
+
+      expect(db.verno).toBe(version);
+      expect(phrases).toHaveLength(V1_PHRASES.length);
+      expect(groups).toEqual([...V1_GROUPS].sort((a, b) => a.id.localeCompare(b.id)));
+      phrases.forEach((phrase, i) => expectOriginalFields(phrase, V1_PHRASES[i]));
+
+      // v2: new SRS state, due from the creation date
+      for (const phrase of phrases) {
+        expect(phrase).toMatchObject({ ease: 2.5, interval: 0, repetitions: 0, dueAt: CREATED_AT });
+      }
+      if (version >= 3) {
+        expect(phrases[0].searchTokens).toEqual(expect.arrayContaining(['break', 'leg', 'good', 'luck']));
+        expect(phrases[1].searchTokens).toEqual(expect.arrayContaining(['piece', 'cake']));
+      }
+      if (version >= 4) {
+        // Compound index added in v4 is queryable
+        const page = await db.table('phrases').where('[videoId+startTime+id]')
+          .between(['video-a', -Infinity, ''], ['video-a', Infinity, '\uffff'])
+          .toArray();
+        expect(page.map(p => p.id)).toEqual(['p1']);
+      }
+      if (version >= 5) {
+        for (const phrase of phrases) {
+          expect(phrase.tags).toEqual([]);
+        }
+        expect(await db.table('phrases').where('tags').equals('x').count()).toBe(0);
+      } else {
+        expect(phrases[0].tags).toBeUndefined();
+      }
+
+      db.close();
+    }
+  });
+
+  it('upgrades a v1 record in memory the same way', () => {
+    const upgraded = upgradeRecord('phrases', V1_PHRASES[0], 1);
+    expect(upgraded).toMatchObject({ ...V1_PHRASES[0], ease: 2.5, tags: [], dueAt: CREATED_AT });
+    expect(V1_PHRASES[0]).not.toHaveProperty('tags');
+  });
+});
+
+describe('upgrade backup and recovery', () => {
+  it('backs up the old rows and opens normally when the upgrade succeeds', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await seedV1();
+
+    const db = new SubtitleLoopDB();
+    expect(await openWithBackup(db)).toBeNull();
+    expect(await db.phrases.count()).toBe(2);
+    db.close();
+
+    const backups = await readBackups();
+    expect(backups).toHaveLength(1);
+    expect(backups[0]).toMatchObject({ fromVersion: 1, toVersion: LATEST_VERSION });
+    expect(backups[0].tables.phrases).toEqual(V1_PHRASES);
+    expect(backups[0].tables.groups).toEqual(V1_GROUPS);
+  });
+
+  it('takes no backup for an up-to-date database', async () => {
+    const db = new SubtitleLoopDB();
+    await openWithBackup(db);
+    db.close();
+
+    expect(await openWithBackup(db)).toBeNull();
+    db.close();
+    expect(await readBackups()).toHaveLength(0);
+  });
+
+  it('replays the backup when an upgrade throws, skipping only the bad record', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const bad = { ...V1_PHRASES[0], id: 'bad', originalText: 'Broken row' };
+    await seedV1([...V1_PHRASES, bad]);
+
+    // v5 fails on one malformed row, which aborts the whole upgrade
+    const v5 = MIGRATIONS[4].upgrade!;
+    const tagsUpgrade = v5.phrases;
+    vi.spyOn(v5, 'phrases').mockImplementation((record) => {
+      if (record.id === 'bad') throw new Error('malformed row');
+      tagsUpgrade(record);
+    });
+
+    const db = new SubtitleLoopDB();
+    const result = await openWithBackup(db);
+
+    expect(result).toEqual({ restored: 4, skipped: 1 });
+    expect(db.verno).toBe(LATEST_VERSION);
+
+    const phrases = await db.phrases.orderBy('id').toArray();
+    expect(phrases.map(p => p.id)).toEqual(['p1', 'p2']);
+    phrases.forEach((phrase, i) => {
+      expectOriginalFields(phrase as unknown as Record<string, unknown>, V1_PHRASES[i]);
+      expect(phrase).toMatchObject({ tags: [], ease: 2.5, dueAt: CREATED_AT });
+    });
+    expect(await db.groups.orderBy('order').toArray()).toEqual(V1_GROUPS);
+    db.close();
+
+    // The skipped row is still in the backup
+    const [backup] = await readBackups();
+    expect(backup.fromVersion).toBe(1);
+    expect(backup.tables.phrases.map(p => p.id)).toContain('bad');
+  });
+});
+
+async function readBackups(): Promise<Array<{
+  fromVersion: number;
+  toVersion: number;
+  tables: Record<string, Array<Record<string, unknown>>>;
+}>> {
+  const backups = new Dexie(BACKUP_DB_NAME);
+  backups.version(1).stores({ backups: '++id, createdAt' });
+  const rows = await backups.table('backups').toArray();
+  backups.close();
+  return rows;
+}
@@ -0,0 +1,146 @@
+import type Dexie from 'dexie';
+import { createInitialSrsState } from './srs';
+import { buildSearchTokens } from './search';
+
+/**
+ * Schema migrations
+ * Every schema change is one entry below: the Dexie store definitions plus,
+ * when existing rows need new fields, a per-record upgrade per table.
+ * Upgrades work on single records (not the transaction) so the same code
+ * runs both inside Dexie's versionchange transaction and when a backup
+ * snapshot is replayed after a failed upgrade (see ./backup).
+ *
+ * Append new versions at the end; never edit a released one.
+ */
+
+/** Stored rows as they come from an older schema */
+export type StoredRecord = Record<string, unknown>;
+
+export type RecordUpgrade = (record: StoredRecord) => void;
+
+export interface Migration {
+  version: number;
+  description: string;
+  /** Dexie store definitions changed in this version (null drops a table) */
+  stores: Record<string, string | null>;
+  /** Field changes for rows that already exist, per table */
+  upgrade?: Record<string, RecordUpgrade>;
+}
+
+const PHRASE_INDEXES_V4 = [
+  'id, videoId, groupId, createdAt, startTime, dueAt, *searchTokens',
+  '[createdAt+id], [updatedAt+id], [videoTitle+startTime+id], [startTime+id], [dueAt+id]',
+  '[groupId+createdAt+id], [videoId+startTime+id]',
+].join(', ');
+
+const PHRASE_INDEXES_V5 = [
+  'id, videoId, groupId, createdAt, startTime, dueAt, *searchTokens, *tags',
+  '[createdAt+id], [updatedAt+id], [videoTitle+startTime+id], [startTime+id], [dueAt+id]',
+  '[groupId+createdAt+id], [videoId+startTime+id]',
+].join(', ');
+
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 1,
+    description: 'phrases and groups',
+    stores: {
+      phrases: 'id, videoId, groupId, createdAt, startTime',
+      groups: 'id, order, createdAt',
+    },
+  },
+  {
+    version: 2,
+    description: 'spaced-repetition scheduling + review history',
+    stores: {
+      phrases: 'id, videoId, groupId, createdAt, startTime, dueAt',
+      reviews: 'id, phraseId, reviewedAt',
+    },
+    upgrade: {
+      // Existing phrases become due from their creation date
+      phrases: (phrase) => {
+        Object.assign(phrase, createInitialSrsState(phrase.createdAt as Date));
+      },
+    },
+  },
+  {
+    version: 3,
+    description: 'full-text search token index',
+    stores: {
+      phrases: 'id, videoId, groupId, createdAt, startTime, dueAt, *searchTokens',
+    },
+    upgrade: {
+      phrases: (phrase) => {
+        phrase.searchTokens = buildSearchTokens(phrase);
+      },
+    },
+  },
+  {
+    version: 4,
+    description: 'compound indexes for sorted, cursor-paginated queries',
+    stores: { phrases: PHRASE_INDEXES_V4 },
+  },
+  {
+    version: 5,
+    description: 'many-to-many tags',
+    stores: { phrases: PHRASE_INDEXES_V5 },
+    upgrade: {
+      phrases: (phrase) => {
+        phrase.tags ??= [];
+      },
+    },
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Declare every version on the database (up to `upTo`, for tests)
+ */
+export function registerMigrations(db: Dexie, upTo = LATEST_VERSION): void {
+  for (const migration of MIGRATIONS) {
+    if (migration.version > upTo) break;
+    const version = db.version(migration.version).stores(migration.stores);
+    const upgrade = migration.upgrade;
+    if (!upgrade) continue;
+
+    version.upgrade(async (tx) => {
+      console.log(`[SubtitleLoop DB] Upgrading to v${migration.version}: ${migration.description}`);
+      for (const [table, upgradeRecord] of Object.entries(upgrade)) {
+        await tx.table(table).toCollection().modify((record: StoredRecord) => {
+          upgradeRecord(record);
+        });
+      }
+    });
+  }
+}
+
+/**
+ * Bring a record stored at `fromVersion` up to the latest schema
+ * Throws whatever the failing upgrade throws.
+ */
+export function upgradeRecord(table: string, record: StoredRecord, fromVersion: number): StoredRecord {
+  const upgraded = { ...record };
+  for (const migration of MIGRATIONS) {
+    if (migration.version > fromVersion) {
+      migration.upgrade?.[table]?.(upgraded);
+    }
+  }
+  return upgraded;
+}
+
+/**
+ * Tables that exist in the latest schema
+ */
+export function getLatestTables(): string[] {
+  const tables = new Set<string>();
+  for (const migration of MIGRATIONS) {
+    for (const [table, schema] of Object.entries(migration.stores)) {
+      if (schema === null) {
+        tables.delete(table);
+      } else {
+        tables.add(table);
+      }
+    }
+  }
+  return [...tables];
+}
@@ -0,0 +1,142 @@
+import type { Phrase } from '../types';
+
+/**
+ * Full-text search helpers (no Dexie dependency, safe to use from UI pages)
+ *
+ * Text is normalized to lowercase with diacritics stripped (NFKD), so
+ * "Café" matches "cafe" and full-width/half-width forms match.
+ * Latin/Cyrillic/etc. text is split into words. CJK text has no spaces,
+ * so each CJK character is its own token and runs of CJK in a query are
+ * matched like quoted phrases.
+ */
+
+/** Phrase fields covered by search */
+export const SEARCH_FIELDS = ['originalText', 'translatedText', 'note', 'videoTitle'] as const;
+
+const CJK_CHAR = '[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}]';
+const TOKEN_PATTERN = new RegExp(`${CJK_CHAR}|(?:(?!${CJK_CHAR})[\\p{L}\\p{N}])+`, 'gu');
+const CJK_RUN = new RegExp(`${CJK_CHAR}+`, 'gu');
+/** Latin diacritics (kana voicing marks are kept: が ≠ か) */
+const DIACRITICS = /[\u0300-\u036f]/g;
+
+/**
+ * Parsed search query
+ */
+export interface SearchQuery {
+  /** Bare words (prefix match on tokens) */
+  terms: string[];
+  /** "Quoted phrases" and CJK runs (substring match on normalized text) */
+  phrases: string[];
+}
+
+/**
+ * Lowercase and strip diacritics
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFKD').replace(DIACRITICS, '').normalize('NFC').toLowerCase();
+}
+
+/**
+ * Split text into normalized tokens
+ */
+export function tokenize(text: string): string[] {
+  return normalizeText(text).match(TOKEN_PATTERN) ?? [];
+}
+
+/**
+ * Build the token index entries for a phrase
+ */
+export function buildSearchTokens(phrase: Partial<Pick<Phrase, typeof SEARCH_FIELDS[number]>>): string[] {
+  const tokens = new Set<string>();
+  for (const field of SEARCH_FIELDS) {
+    const value = phrase[field];
+    if (value) {
+      tokenize(value).forEach(token => tokens.add(token));
+    }
+  }
+  return [...tokens];
+}
+
+/**
+ * Normalized text of all searchable fields (for phrase confirmation)
+ */
+export function getSearchableText(phrase: Partial<Pick<Phrase, typeof SEARCH_FIELDS[number]>>): string {
+  return SEARCH_FIELDS
+    .map(field => normalizeText(phrase[field] ?? '').replace(/\s+/g, ' '))
+    .join('\n');
+}
+
+/**
+ * Parse a query: "quoted phrases" and bare words
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+  const phrases: string[] = [];
+
+  const rest = query.replace(/"([^"]*)"?/g, (_match, quoted: string) => {
+    const phrase = normalizeText(quoted).replace(/\s+/g, ' ').trim();
+    if (phrase) phrases.push(phrase);
+    return ' ';
+  });
+
+  const words = normalizeText(rest).replace(CJK_RUN, (run) => {
+    phrases.push(run);
+    return ' ';
+  });
+
+  return { terms: tokenize(words), phrases };
+}
+
+/**
+ * Check if a query has anything to search for
+ */
+export function isEmptyQuery(query: SearchQuery): boolean {
+  return query.terms.length === 0 && query.phrases.length === 0;
+}
+
+/**
+ * Find [start, end) ranges in `text` matching the query, for highlighting
+ * Ranges refer to the original (un-normalized) text.
+ */
+export function findMatchRanges(text: string, query: SearchQuery): Array<[number, number]> {
+  // Normalize per character, remembering where each normalized char came from
+  let normalized = '';
+  const origin: number[] = [];
+  let offset = 0;
+  for (const char of text) {
+    const n = normalizeText(char);
+    for (let i = 0; i < n.length; i++) {
+      origin.push(offset);
+    }
+    normalized += n;
+    offset += char.length;
+  }
+  origin.push(text.length);
+
+  const needles = [...query.phrases, ...query.terms].filter(Boolean);
+  const ranges: Array<[number, number]> = [];
+
+  for (const needle of needles) {
+    let index = normalized.indexOf(needle);
+    while (index !== -1) {
+      ranges.push([origin[index], origin[index + needle.length]]);
+      index = normalized.indexOf(needle, index + needle.length);
+    }
+  }
+
+  return mergeRanges(ranges);
+}
+
+function mergeRanges(ranges: Array<[number, number]>): Array<[number, number]> {
+  const sorted = ranges.filter(([start, end]) => end > start).sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,97 @@
+import type { Phrase, ReviewGrade } from '../types';
+
+/**
+ * Spaced-repetition scheduling (SM-2 variant)
+ * Pure functions only - persistence lives in ./index.ts
+ */
+
+/** Scheduling fields stored on every phrase */
+export type SrsState = Pick<Phrase, 'ease' | 'interval' | 'repetitions' | 'dueAt'>;
+
+/** Ease factor assigned to new phrases */
+export const DEFAULT_EASE = 2.5;
+/** SM-2 lower bound for the ease factor */
+export const MIN_EASE = 1.3;
+/** Delay before a failed phrase is shown again */
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** SM-2 quality (0-5) for each grade */
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+/** Extra interval multipliers applied on top of the ease factor */
+const HARD_MULTIPLIER = 1.2;
+const EASY_BONUS = 1.3;
+
+/**
+ * Initial scheduling state: due immediately
+ */
+export function createInitialSrsState(now: Date = new Date()): SrsState {
+  return {
+    ease: DEFAULT_EASE,
+    interval: 0,
+    repetitions: 0,
+    dueAt: now,
+  };
+}
+
+/**
+ * Compute the next scheduling state after a review
+ */
+export function scheduleReview(
+  state: SrsState,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): SrsState {
+  const quality = GRADE_QUALITY[grade];
+  const ease = Math.max(
+    MIN_EASE,
+    state.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  // Failed recall - relearn shortly, keep the lowered ease
+  if (quality < 3) {
+    return {
+      ease,
+      interval: 0,
+      repetitions: 0,
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MS),
+    };
+  }
+
+  let interval: number;
+  if (state.repetitions === 0) {
+    interval = grade === 'easy' ? 4 : 1;
+  } else if (state.repetitions === 1) {
+    interval = grade === 'hard' ? 3 : 6;
+  } else if (grade === 'hard') {
+    interval = state.interval * HARD_MULTIPLIER;
+  } else if (grade === 'easy') {
+    interval = state.interval * ease * EASY_BONUS;
+  } else {
+    interval = state.interval * ease;
+  }
+
+  interval = Math.max(1, Math.round(interval));
+
+  return {
+    ease,
+    interval,
+    repetitions: state.repetitions + 1,
+    dueAt: new Date(now.getTime() + interval * DAY_MS),
+  };
+}
+
+/**
+ * End of the local day containing `date` (inclusive bound for "due today")
+ */
+export function endOfDay(date: Date = new Date()): Date {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
@@ -0,0 +1,182 @@
+import {
+  db,
+  createPhrase,
+  getPhrases,
+  isDatabaseReady,
+  getDatabaseError,
+  checkDatabaseAvailability,
+} from './index';
+import { savePhraseChecked } from './duplicates';
+import type {
+  Phrase,
+  Serialized,
+  StorageMode,
+  DatabaseStatus,
+  SavePhrasePayload,
+  SavePhraseResult,
+  GetPhrasesPayload,
+} from '../types';
+
+/**
+ * Phrase storage with a degraded-mode fallback
+ * When IndexedDB can't be opened (locked-down profiles, disk errors), new
+ * phrases are queued in chrome.storage.local so saving keeps working. The
+ * queue is moved into IndexedDB as soon as it opens again; until then only
+ * saving and listing a video's phrases are available (the background
+ * answers other messages with STORAGE_DEGRADED).
+ */
+
+const QUEUE_KEY = 'pendingPhrases';
+
+/** How often to retry opening IndexedDB while in fallback mode */
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+export interface PhraseStorage {
+  readonly mode: StorageMode;
+  savePhrase(payload: SavePhrasePayload): Promise<SavePhraseResult>;
+  getPhrases(filters?: GetPhrasesPayload): Promise<Phrase[]>;
+}
+
+const indexedDbStorage: PhraseStorage = {
+  mode: 'indexeddb',
+  savePhrase: savePhraseChecked,
+  getPhrases,
+};
+
+/**
+ * Write-only queue (no duplicate checks: there is no index to check against)
+ */
+const fallbackStorage: PhraseStorage = {
+  mode: 'fallback',
+
+  async savePhrase({ resolution, ...data }) {
+    if (resolution && resolution.action !== 'save-anyway') {
+      throw new Error('Cannot merge or replace phrases while IndexedDB is unavailable');
+    }
+
+    const phrase = createPhrase(data);
+    await updateQueue(queue => [...queue, phrase]);
+    console.log('[Subtitle Loop] Phrase queued in fallback storage:', phrase.id);
+
+    return { phrase, duplicates: [] };
+  },
+
+  async getPhrases(filters) {
+    const queue = await readQueue();
+    return queue
+      .filter(phrase =>
+        (!filters?.videoId || phrase.videoId === filters.videoId) &&
+        (!filters?.groupId || phrase.groupId === filters.groupId)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  },
+};
+
+// The startup check in the background counts as the first attempt
+let lastAttemptAt = Date.now();
+
+/**
+ * Storage to use right now
+ * In fallback mode this retries IndexedDB (at most once a minute) and, once
+ * it opens, flushes the queue into it first.
+ */
+export async function getPhraseStorage(): Promise<PhraseStorage> {
+  if (!isDatabaseReady() && Date.now() - lastAttemptAt >= RETRY_INTERVAL_MS) {
+    lastAttemptAt = Date.now();
+    await checkDatabaseAvailability();
+  }
+
+  if (!isDatabaseReady()) {
+    return fallbackStorage;
+  }
+
+  // A failed flush keeps the queue for the next attempt
+  await flushQueue().catch((error) => {
+    console.error('[Subtitle Loop] Failed to move queued phrases into IndexedDB:', error);
+  });
+  return indexedDbStorage;
+}
+
+/**
+ * Mode as of the last attempt to open IndexedDB (no retry)
+ */
+export function getStorageMode(): StorageMode {
+  return isDatabaseReady() ? 'indexeddb' : 'fallback';
+}
+
+/**
+ * Current mode and queue size (DB_STATUS)
+ */
+export async function getStorageStatus(): Promise<DatabaseStatus> {
+  const storage = await getPhraseStorage();
+  return {
+    isAvailable: isDatabaseReady(),
+    error: getDatabaseError(),
+    mode: storage.mode,
+    pendingCount: (await readQueue()).length,
+  };
+}
+
+/**
+ * Move queued phrases into IndexedDB
+ * Puts by id, so a flush interrupted before the queue was cleared is
+ * safe to repeat.
+ */
+export async function flushQueue(): Promise<number> {
+  const queue = await readQueue();
+  if (queue.length === 0) return 0;
+
+  await db.phrases.bulkPut(queue);
+
+  // Phrases queued while this was running stay for the next flush
+  const flushedIds = new Set(queue.map(phrase => phrase.id));
+  await updateQueue(current => current.filter(phrase => !flushedIds.has(phrase.id)));
+
+  console.log(`[Subtitle Loop] Moved ${queue.length} queued phrases into IndexedDB`);
+  return queue.length;
+}
+
+// ============================================================
+// QUEUE (chrome.storage.local)
+// ============================================================
+
+// Read-modify-write updates run one at a time so concurrent saves don't
+// overwrite each other
+let queueUpdate: Promise<void> = Promise.resolve();
+
+function updateQueue(update: (queue: Phrase[]) => Phrase[]): Promise<void> {
+  const next = queueUpdate.then(async () => {
+    await writeQueue(update(await readQueue()));
+  });
+  queueUpdate = next.catch(() => undefined);
+  return next;
+}
+
+async function readQueue(): Promise<Phrase[]> {
+  const result = await chrome.storage.local.get(QUEUE_KEY);
+  const queue = (result[QUEUE_KEY] ?? []) as Serialized<Phrase>[];
+  return queue.map(phrase => ({
+    ...phrase,
+    dueAt: new Date(phrase.dueAt),
+    lastReviewedAt: phrase.lastReviewedAt ? new Date(phrase.lastReviewedAt) : undefined,
+    createdAt: new Date(phrase.createdAt),
+    updatedAt: new Date(phrase.updatedAt),
+  }));
+}
+
+async function writeQueue(queue: Phrase[]): Promise<void> {
+  if (queue.length === 0) {
+    await chrome.storage.local.remove(QUEUE_KEY);
+    return;
+  }
+
+  // chrome.storage can't hold Dates
+  const serialized: Serialized<Phrase>[] = queue.map(phrase => ({
+    ...phrase,
+    dueAt: phrase.dueAt.toISOString(),
+    lastReviewedAt: phrase.lastReviewedAt?.toISOString(),
+    createdAt: phrase.createdAt.toISOString(),
+    updatedAt: phrase.updatedAt.toISOString(),
+  }));
+  await chrome.storage.local.set({ [QUEUE_KEY]: serialized });
+}
@@ -0,0 +1,55 @@
+/**
+ * Tag helpers (no Dexie dependency, safe to use from UI pages)
+ *
+ * Tags keep the spelling they were first entered with, but two tags that
+ * differ only in case or a leading "#" are treated as the same tag.
+ */
+
+/** Longest allowed tag (characters) */
+export const MAX_TAG_LENGTH = 40;
+
+/**
+ * Trim, drop a leading "#" and collapse whitespace
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .normalize('NFC')
+    .trim()
+    .replace(/^#+/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Normalize a tag list, dropping empties and case-insensitive duplicates
+ */
+export function normalizeTags(tags: readonly string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const raw of tags) {
+    const tag = normalizeTag(raw);
+    const key = tag.toLowerCase();
+    if (tag && !seen.has(key)) {
+      seen.add(key);
+      result.push(tag);
+    }
+  }
+  return result;
+}
+
+/**
+ * Reuse the spelling of a known tag ("Idiom" when typing "idiom")
+ */
+export function matchKnownTag(tag: string, known: readonly string[]): string {
+  const key = tag.toLowerCase();
+  return known.find(k => k.toLowerCase() === key) ?? tag;
+}
+
+/**
+ * Split user input on commas (half- or full-width)
+ */
+export function parseTagInput(text: string): string[] {
+  return normalizeTags(text.split(/[,、，]/));
+}
@@ -0,0 +1,170 @@
+import type { PhraseUpdates, UpdatePhrasePayload } from '../types';
+
+/**
+ * Phrase edit validation (no Dexie dependency, safe to use from UI pages)
+ *
+ * The background validates every UPDATE_PHRASE payload; the options page
+ * runs the same checks on its form to show errors next to each field.
+ */
+
+/** Longest accepted text, translation or note (characters) */
+export const MAX_PHRASE_TEXT_LENGTH = 2000;
+
+/** Shortest accepted clip (seconds) */
+export const MIN_PHRASE_DURATION = 0.1;
+
+export type PhraseField = keyof PhraseUpdates;
+
+export type ValidationReason =
+  | 'invalid'       // wrong type
+  | 'required'      // empty after trimming
+  | 'too-long'      // over MAX_PHRASE_TEXT_LENGTH
+  | 'negative'      // time before 0
+  | 'order'         // end not after start
+  | 'not-editable'; // field can't be changed through UPDATE_PHRASE
+
+export interface PhraseFieldError {
+  field: string;
+  reason: ValidationReason;
+}
+
+const EDITABLE_FIELDS: readonly PhraseField[] = [
+  'originalText',
+  'translatedText',
+  'note',
+  'startTime',
+  'endTime',
+  'groupId',
+  'tags',
+];
+
+const REASON_TEXT: Record<ValidationReason, string> = {
+  'invalid': 'has an invalid type',
+  'required': 'must not be empty',
+  'too-long': `must be at most ${MAX_PHRASE_TEXT_LENGTH} characters`,
+  'negative': 'must not be negative',
+  'order': `must be at least ${MIN_PHRASE_DURATION}s after startTime`,
+  'not-editable': 'cannot be updated',
+};
+
+/**
+ * Validate untrusted phrase updates
+ * Text is trimmed and empty optional text becomes null (cleared).
+ * Pass the other bound in `current` to check time order when only one
+ * of startTime/endTime changes.
+ */
+export function validatePhraseUpdates(
+  value: unknown,
+  current?: { startTime: number; endTime: number }
+): { updates: PhraseUpdates; errors: PhraseFieldError[] } {
+  const updates: PhraseUpdates = {};
+  const errors: PhraseFieldError[] = [];
+
+  if (!isObject(value)) {
+    return { updates, errors: [{ field: 'updates', reason: 'invalid' }] };
+  }
+
+  for (const field of Object.keys(value)) {
+    if (!EDITABLE_FIELDS.includes(field as PhraseField)) {
+      errors.push({ field, reason: 'not-editable' });
+    }
+  }
+
+  // Required text
+  if (value.originalText !== undefined) {
+    const text = checkText(value.originalText, 'originalText', errors);
+    if (text === null) {
+      errors.push({ field: 'originalText', reason: 'required' });
+    } else if (text !== undefined) {
+      updates.originalText = text;
+    }
+  }
+
+  // Optional text
+  for (const field of ['translatedText', 'note'] as const) {
+    if (value[field] === undefined) continue;
+    const text = value[field] === null ? null : checkText(value[field], field, errors);
+    if (text !== undefined) {
+      updates[field] = text;
+    }
+  }
+
+  // Time bounds
+  for (const field of ['startTime', 'endTime'] as const) {
+    if (value[field] === undefined) continue;
+    const time = value[field];
+    if (typeof time !== 'number' || !Number.isFinite(time)) {
+      errors.push({ field, reason: 'invalid' });
+    } else if (time < 0) {
+      errors.push({ field, reason: 'negative' });
+    } else {
+      updates[field] = time;
+    }
+  }
+
+  const start = updates.startTime ?? current?.startTime;
+  const end = updates.endTime ?? current?.endTime;
+  const timesChanged = updates.startTime !== undefined || updates.endTime !== undefined;
+  if (timesChanged && start !== undefined && end !== undefined && end - start < MIN_PHRASE_DURATION) {
+    errors.push({ field: 'endTime', reason: 'order' });
+  }
+
+  if (value.groupId !== undefined) {
+    if (value.groupId === null || typeof value.groupId === 'string') {
+      updates.groupId = value.groupId || null;
+    } else {
+      errors.push({ field: 'groupId', reason: 'invalid' });
+    }
+  }
+
+  if (value.tags !== undefined) {
+    if (Array.isArray(value.tags) && value.tags.every(tag => typeof tag === 'string')) {
+      updates.tags = value.tags;
+    } else {
+      errors.push({ field: 'tags', reason: 'invalid' });
+    }
+  }
+
+  return { updates, errors };
+}
+
+/**
+ * Validate an UPDATE_PHRASE payload, throwing on the first problems found
+ */
+export function parseUpdatePhrasePayload(value: unknown): UpdatePhrasePayload {
+  if (!isObject(value) || typeof value.id !== 'string' || value.id === '') {
+    throw new Error('id must be a non-empty string');
+  }
+
+  const { updates, errors } = validatePhraseUpdates(value.updates);
+  if (errors.length > 0) {
+    throw new Error(errors.map(formatFieldError).join('; '));
+  }
+
+  return { id: value.id, updates };
+}
+
+export function formatFieldError(error: PhraseFieldError): string {
+  return `${error.field} ${REASON_TEXT[error.reason]}`;
+}
+
+/**
+ * Trimmed text, null when empty, undefined (with an error) when invalid
+ */
+function checkText(value: unknown, field: string, errors: PhraseFieldError[]): string | null | undefined {
+  if (typeof value !== 'string') {
+    errors.push({ field, reason: 'invalid' });
+    return undefined;
+  }
+
+  const text = value.trim();
+  if (text.length > MAX_PHRASE_TEXT_LENGTH) {
+    errors.push({ field, reason: 'too-long' });
+    return undefined;
+  }
+  return text || null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,60 @@
+import type { MessageType, MessagePayload, MessageData, MessageResponse } from '../types';
+
+/**
+ * Typed senders for the message protocol (see MessageMap)
+ * The payload argument can be left out for messages that take none.
+ */
+
+type PayloadArgs<T extends MessageType> = undefined extends MessagePayload<T>
+  ? [payload?: MessagePayload<T>]
+  : [payload: MessagePayload<T>];
+
+/**
+ * Send a message to the background service worker
+ */
+export async function send<T extends MessageType>(
+  type: T,
+  ...[payload]: PayloadArgs<T>
+): Promise<MessageResponse<MessageData<T>>> {
+  return await chrome.runtime.sendMessage({ type, payload });
+}
+
+/**
+ * Send a message to a tab's content script
+ * Rejects if the tab has no content script (page opened before install);
+ * resolves to undefined if the content script doesn't respond.
+ */
+export async function sendToTab<T extends MessageType>(
+  tabId: number,
+  type: T,
+  ...[payload]: PayloadArgs<T>
+): Promise<MessageResponse<MessageData<T>> | undefined> {
+  return await chrome.tabs.sendMessage(tabId, { type, payload });
+}
+
+/**
+ * Listen for a message broadcast by the background (e.g. PHRASE_CHANGED)
+ * Other messages, and payloads that fail `validate`, are ignored and left
+ * unanswered. Returns a function that removes the listener.
+ */
+export function onBroadcast<T extends MessageType>(
+  type: T,
+  validate: (payload: unknown) => MessagePayload<T>,
+  listener: (payload: MessagePayload<T>) => void
+): () => void {
+  const handleMessage = (message: unknown): void => {
+    if (typeof message !== 'object' || message === null || (message as { type?: unknown }).type !== type) return;
+
+    let payload: MessagePayload<T>;
+    try {
+      payload = validate((message as { payload?: unknown }).payload);
+    } catch (error) {
+      console.warn(`[Subtitle Loop] Ignored invalid ${type} broadcast:`, error);
+      return;
+    }
+    listener(payload);
+  };
+
+  chrome.runtime.onMessage.addListener(handleMessage);
+  return () => chrome.runtime.onMessage.removeListener(handleMessage);
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createDispatcher, MessageError } from './dispatcher';
+
+describe('createDispatcher guard', () => {
+  const handle = vi.fn(() => []);
+
+  const dispatch = createDispatcher({
+    DB_STATUS: {
+      handle: () => ({ isAvailable: false, error: 'closed', mode: 'fallback', pendingCount: 0 }),
+    },
+    GET_GROUPS: { handle },
+    DELETE_PHRASE: {
+      validate: () => { throw new Error('unreachable'); },
+      handle: () => undefined,
+    },
+  }, {
+    guard: (type) => {
+      if (type !== 'DB_STATUS') {
+        throw new MessageError('STORAGE_DEGRADED', `${type} needs IndexedDB`);
+      }
+    },
+  });
+
+  it('refuses guarded routes with the guard\'s code before validating or handling', async () => {
+    expect(await dispatch({ type: 'GET_GROUPS' })).toEqual({
+      success: false,
+      code: 'STORAGE_DEGRADED',
+      error: 'GET_GROUPS needs IndexedDB',
+    });
+    expect(await dispatch({ type: 'DELETE_PHRASE', payload: {} })).toMatchObject({ code: 'STORAGE_DEGRADED' });
+    expect(handle).not.toHaveBeenCalled();
+  });
+
+  it('lets allowed routes through', async () => {
+    expect(await dispatch({ type: 'DB_STATUS' })).toMatchObject({ success: true, data: { mode: 'fallback' } });
+  });
+
+  it('still reports unknown types before guarding', async () => {
+    expect(await dispatch({ type: 'NOPE' })).toMatchObject({ code: 'UNKNOWN_TYPE' });
+  });
+});
@@ -0,0 +1,105 @@
+import type {
+  MessageType,
+  MessagePayload,
+  MessageData,
+  MessageErrorCode,
+  MessageResponse,
+} from '../types';
+
+/**
+ * Message dispatcher (no chrome.* dependency, so it can be unit tested)
+ *
+ * Each receiver (background, content script) declares a route per message
+ * type: a validator for the untyped payload and a handler. The dispatcher
+ * turns every outcome into a MessageResponse with an error code.
+ */
+
+/**
+ * Error carrying a specific code (anything else thrown becomes HANDLER_FAILED)
+ */
+export class MessageError extends Error {
+  constructor(readonly code: MessageErrorCode, message: string) {
+    super(message);
+    this.name = 'MessageError';
+  }
+}
+
+/**
+ * Validator (throws on invalid input) and handler for one message type
+ * Messages that take no payload have no validator.
+ */
+export type MessageRoute<T extends MessageType> = {
+  handle: (payload: MessagePayload<T>) => Promise<MessageData<T>> | MessageData<T>;
+} & (MessagePayload<T> extends undefined
+  ? { validate?: never }
+  : { validate: (payload: unknown) => MessagePayload<T> });
+
+export type MessageRoutes = { [K in MessageType]?: MessageRoute<K> };
+
+interface UntypedRoute {
+  validate?: (payload: unknown) => unknown;
+  handle: (payload: unknown) => unknown;
+}
+
+export interface DispatcherOptions {
+  /**
+   * Runs before validation for every known type; throw a MessageError to
+   * refuse the message (e.g. STORAGE_DEGRADED)
+   */
+  guard?: (type: MessageType) => Promise<void> | void;
+}
+
+/**
+ * Build a dispatcher that always resolves (never rejects) to a response
+ */
+export function createDispatcher(
+  routes: MessageRoutes,
+  options: DispatcherOptions = {}
+): (message: unknown) => Promise<MessageResponse> {
+  return async (message) => {
+    if (!isObject(message) || typeof message.type !== 'string') {
+      return failure('INVALID_MESSAGE', 'Message must be an object with a string type');
+    }
+
+    const type = message.type;
+    if (!Object.prototype.hasOwnProperty.call(routes, type)) {
+      return failure('UNKNOWN_TYPE', `Unknown message type: ${type}`);
+    }
+    const route = (routes as Record<string, UntypedRoute>)[type];
+
+    try {
+      await options.guard?.(type as MessageType);
+    } catch (error) {
+      return failure(getErrorCode(error), getErrorMessage(error) || `Cannot handle ${type}`);
+    }
+
+    let payload: unknown;
+    try {
+      payload = route.validate?.(message.payload);
+    } catch (error) {
+      return failure('INVALID_PAYLOAD', `Invalid ${type} payload: ${getErrorMessage(error)}`);
+    }
+
+    try {
+      return { success: true, data: await route.handle(payload) };
+    } catch (error) {
+      return failure(getErrorCode(error), getErrorMessage(error) || `Failed to handle ${type}`);
+    }
+  };
+}
+
+function failure(code: MessageErrorCode, error: string): MessageResponse<never> {
+  return { success: false, error, code };
+}
+
+function getErrorCode(error: unknown): MessageErrorCode {
+  return error instanceof MessageError ? error.code : 'HANDLER_FAILED';
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,341 @@
+import type {
+  SavePhrasePayload,
+  DuplicateResolution,
+  GetPhrasesPayload,
+  QueryPhrasesPayload,
+  SearchPhrasesPayload,
+  DeletePhrasePayload,
+  CreateGroupPayload,
+  UpdateGroupPayload,
+  DeleteGroupPayload,
+  UpdateTagsPayload,
+  MergePhrasesPayload,
+  BulkDeletePhrasesPayload,
+  GetDuePhrasesPayload,
+  RecordReviewPayload,
+  PlayClipPayload,
+  ImportLibraryPayload,
+  RunCommandPayload,
+  TabActionPayload,
+  PhraseSortKey,
+  SortDirection,
+  ReviewGrade,
+  ImportStrategy,
+  CommandAction,
+  ChangeSet,
+  PhraseChangedPayload,
+  GroupChangedPayload,
+} from '../types';
+
+/**
+ * Payload validators (messages arrive as untyped JSON)
+ * Each returns the typed payload or throws naming the first bad field;
+ * the dispatcher reports that as INVALID_PAYLOAD.
+ */
+
+const SORT_KEYS: readonly PhraseSortKey[] = ['createdAt', 'updatedAt', 'videoTitle', 'startTime', 'dueAt'];
+const SORT_DIRECTIONS: readonly SortDirection[] = ['asc', 'desc'];
+const REVIEW_GRADES: readonly ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+const IMPORT_STRATEGIES: readonly ImportStrategy[] = ['skip', 'overwrite', 'keep-both'];
+
+/** Actions registered as chrome.commands (names match manifest.json) */
+export const COMMAND_ACTIONS: readonly CommandAction[] = [
+  'setLoopStart',
+  'setLoopEnd',
+  'clearLoop',
+  'replaySegment',
+  'saveSegment',
+  'previousSegment',
+  'nextSegment',
+];
+
+// ============================================================
+// PHRASES
+// ============================================================
+
+export function parseSavePhrasePayload(value: unknown): SavePhrasePayload {
+  const item = requireObject(value);
+  return {
+    videoId: requireId(item, 'videoId'),
+    videoUrl: requireString(item, 'videoUrl'),
+    videoTitle: requireString(item, 'videoTitle'),
+    startTime: requireNumber(item, 'startTime'),
+    endTime: requireNumber(item, 'endTime'),
+    originalText: requireString(item, 'originalText'),
+    translatedText: optionalString(item, 'translatedText'),
+    note: optionalString(item, 'note'),
+    groupId: optionalString(item, 'groupId'),
+    tags: optionalStringArray(item, 'tags'),
+    resolution: item.resolution === undefined ? undefined : parseResolution(item.resolution),
+  };
+}
+
+function parseResolution(value: unknown): DuplicateResolution {
+  const item = requireObject(value, 'resolution');
+  const action = requireOneOf(item, 'action', ['merge', 'replace', 'save-anyway'] as const);
+  return action === 'save-anyway'
+    ? { action }
+    : { action, targetId: requireId(item, 'targetId') };
+}
+
+export function parseGetPhrasesPayload(value: unknown): GetPhrasesPayload | undefined {
+  if (value === undefined) return undefined;
+  const item = requireObject(value);
+  return {
+    groupId: optionalNullableString(item, 'groupId'),
+    videoId: optionalString(item, 'videoId'),
+  };
+}
+
+export function parseQueryPhrasesPayload(value: unknown): QueryPhrasesPayload | undefined {
+  if (value === undefined) return undefined;
+  const item = requireObject(value);
+  return {
+    groupId: optionalString(item, 'groupId'),
+    videoId: optionalString(item, 'videoId'),
+    tag: optionalString(item, 'tag'),
+    createdFrom: optionalNumber(item, 'createdFrom'),
+    createdTo: optionalNumber(item, 'createdTo'),
+    sortBy: optionalOneOf(item, 'sortBy', SORT_KEYS),
+    direction: optionalOneOf(item, 'direction', SORT_DIRECTIONS),
+    limit: optionalLimit(item),
+    cursor: optionalNullableString(item, 'cursor'),
+  };
+}
+
+export function parseSearchPhrasesPayload(value: unknown): SearchPhrasesPayload {
+  const item = requireObject(value);
+  return {
+    query: requireString(item, 'query'),
+    groupId: optionalNullableString(item, 'groupId'),
+    videoId: optionalString(item, 'videoId'),
+    tag: optionalString(item, 'tag'),
+    createdFrom: optionalNumber(item, 'createdFrom'),
+    createdTo: optionalNumber(item, 'createdTo'),
+    limit: optionalLimit(item),
+  };
+}
+
+export function parseDeletePhrasePayload(value: unknown): DeletePhrasePayload {
+  return { id: requireId(requireObject(value), 'id') };
+}
+
+export function parseMergePhrasesPayload(value: unknown): MergePhrasesPayload {
+  const item = requireObject(value);
+  return {
+    targetId: requireId(item, 'targetId'),
+    sourceIds: requireStringArray(item, 'sourceIds'),
+  };
+}
+
+export function parseBulkDeletePhrasesPayload(value: unknown): BulkDeletePhrasesPayload {
+  const item = requireObject(value);
+  const payload = {
+    videoIds: optionalStringArray(item, 'videoIds'),
+    createdBefore: optionalNumber(item, 'createdBefore'),
+  };
+  if (payload.videoIds === undefined && payload.createdBefore === undefined) {
+    throw new Error('videoIds or createdBefore is required');
+  }
+  return payload;
+}
+
+// ============================================================
+// GROUPS & TAGS
+// ============================================================
+
+export function parseCreateGroupPayload(value: unknown): CreateGroupPayload {
+  const item = requireObject(value);
+  return {
+    name: requireId(item, 'name'),
+    description: optionalString(item, 'description'),
+    color: requireId(item, 'color'),
+  };
+}
+
+export function parseUpdateGroupPayload(value: unknown): UpdateGroupPayload {
+  const item = requireObject(value);
+  const updates = requireObject(item.updates, 'updates');
+  return {
+    id: requireId(item, 'id'),
+    updates: {
+      name: updates.name === undefined ? undefined : requireId(updates, 'name'),
+      description: optionalString(updates, 'description'),
+      color: updates.color === undefined ? undefined : requireId(updates, 'color'),
+    },
+  };
+}
+
+export function parseDeleteGroupPayload(value: unknown): DeleteGroupPayload {
+  return { id: requireId(requireObject(value), 'id') };
+}
+
+export function parseUpdateTagsPayload(value: unknown): UpdateTagsPayload {
+  const item = requireObject(value);
+  return {
+    phraseIds: requireStringArray(item, 'phraseIds'),
+    add: optionalStringArray(item, 'add'),
+    remove: optionalStringArray(item, 'remove'),
+  };
+}
+
+// ============================================================
+// REVIEW & LIBRARY
+// ============================================================
+
+export function parseGetDuePhrasesPayload(value: unknown): GetDuePhrasesPayload | undefined {
+  if (value === undefined) return undefined;
+  return { limit: optionalLimit(requireObject(value)) };
+}
+
+export function parseRecordReviewPayload(value: unknown): RecordReviewPayload {
+  const item = requireObject(value);
+  return {
+    id: requireId(item, 'id'),
+    grade: requireOneOf(item, 'grade', REVIEW_GRADES),
+  };
+}
+
+export function parsePlayClipPayload(value: unknown): PlayClipPayload {
+  const item = requireObject(value);
+  return {
+    videoId: requireId(item, 'videoId'),
+    startTime: requireNumber(item, 'startTime'),
+    endTime: requireNumber(item, 'endTime'),
+  };
+}
+
+export function parseImportLibraryPayload(value: unknown): ImportLibraryPayload {
+  const item = requireObject(value);
+  return {
+    bundle: item.bundle, // Validated by importLibrary
+    strategy: requireOneOf(item, 'strategy', IMPORT_STRATEGIES),
+  };
+}
+
+// ============================================================
+// CHANGE BROADCASTS
+// ============================================================
+
+// Sent by the background from records it just wrote, so only the shape
+// is checked, not every field of each record
+
+export function parsePhraseChangedPayload(value: unknown): PhraseChangedPayload {
+  return parseChangeSet<PhraseChangedPayload['upserted'][number]>(value);
+}
+
+export function parseGroupChangedPayload(value: unknown): GroupChangedPayload {
+  return parseChangeSet<GroupChangedPayload['upserted'][number]>(value);
+}
+
+function parseChangeSet<T extends { id: string }>(value: unknown): ChangeSet<T> {
+  const item = requireObject(value);
+  const upserted = item.upserted;
+  if (!Array.isArray(upserted) || !upserted.every(record => typeof requireObject(record, 'record').id === 'string')) {
+    throw new Error('upserted must be an array of records');
+  }
+  if (typeof item.reload !== 'boolean') {
+    throw new Error('reload must be a boolean');
+  }
+  return {
+    upserted: upserted as T[],
+    createdIds: requireStringArray(item, 'createdIds'),
+    deletedIds: requireStringArray(item, 'deletedIds'),
+    reload: item.reload,
+  };
+}
+
+// ============================================================
+// CONTENT SCRIPT
+// ============================================================
+
+export function parseRunCommandPayload(value: unknown): RunCommandPayload {
+  return { action: requireOneOf(requireObject(value), 'action', COMMAND_ACTIONS) };
+}
+
+export function parseTabActionPayload(value: unknown): TabActionPayload {
+  const item = requireObject(value);
+  const action = requireOneOf(item, 'action', ['toggleLoop', 'clearLoop', 'quickSave', 'setSpeed'] as const);
+  return action === 'setSpeed'
+    ? { action, speed: requireNumber(item, 'speed') }
+    : { action };
+}
+
+// ============================================================
+// FIELD HELPERS
+// ============================================================
+
+function requireObject(value: unknown, name = 'payload'): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${name} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function requireString(item: Record<string, unknown>, key: string): string {
+  const value = item[key];
+  if (typeof value !== 'string') {
+    throw new Error(`${key} must be a string`);
+  }
+  return value;
+}
+
+function requireId(item: Record<string, unknown>, key: string): string {
+  const value = requireString(item, key);
+  if (value === '') {
+    throw new Error(`${key} must not be empty`);
+  }
+  return value;
+}
+
+function optionalString(item: Record<string, unknown>, key: string): string | undefined {
+  return item[key] === undefined ? undefined : requireString(item, key);
+}
+
+function optionalNullableString(item: Record<string, unknown>, key: string): string | null | undefined {
+  return item[key] === null ? null : optionalString(item, key);
+}
+
+function requireStringArray(item: Record<string, unknown>, key: string): string[] {
+  const value = item[key];
+  if (!Array.isArray(value) || !value.every(v => typeof v === 'string')) {
+    throw new Error(`${key} must be an array of strings`);
+  }
+  return value;
+}
+
+function optionalStringArray(item: Record<string, unknown>, key: string): string[] | undefined {
+  return item[key] === undefined ? undefined : requireStringArray(item, key);
+}
+
+function requireNumber(item: Record<string, unknown>, key: string): number {
+  const value = item[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${key} must be a number`);
+  }
+  return value;
+}
+
+function optionalNumber(item: Record<string, unknown>, key: string): number | undefined {
+  return item[key] === undefined ? undefined : requireNumber(item, key);
+}
+
+function optionalLimit(item: Record<string, unknown>): number | undefined {
+  const limit = optionalNumber(item, 'limit');
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    throw new Error('limit must be a positive integer');
+  }
+  return limit;
+}
+
+function requireOneOf<T extends string>(item: Record<string, unknown>, key: string, values: readonly T[]): T {
+  const value = item[key];
+  if (!values.includes(value as T)) {
+    throw new Error(`${key} must be one of: ${values.join(', ')}`);
+  }
+  return value as T;
+}
+
+function optionalOneOf<T extends string>(item: Record<string, unknown>, key: string, values: readonly T[]): T | undefined {
+  return item[key] === undefined ? undefined : requireOneOf(item, key, values);
+}
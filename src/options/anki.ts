@@ -0,0 +1,331 @@
+import initSqlJs from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm-browser.wasm?url';
+import { zipSync, strToU8 } from 'fflate';
+import type { Phrase, Group } from '../types';
+import { formatTimestamp, escapeHtml } from './utils';
+
+/**
+ * Anki deck export
+ * - TSV for Anki's text importer
+ * - .apkg (SQLite collection in a zip) built locally with sql.js
+ */
+
+/** Deck parent so exported decks stay together in Anki */
+const DECK_PREFIX = 'Subtitle Loop';
+/** Tag added to every exported note */
+const BASE_TAG = 'SubtitleLoop';
+/** Stable note type ID so re-imports update the same model */
+const MODEL_ID = 1700000000001;
+
+/**
+ * Deck source: a group, or the current library filter (group = null)
+ */
+export interface AnkiDeckSource {
+  group: Group | null;
+  phrases: Phrase[];
+}
+
+interface AnkiNote {
+  front: string;
+  back: string;
+  tags: string[];
+}
+
+// ============================================================
+// NOTE BUILDING
+// ============================================================
+
+/**
+ * YouTube link that opens the video at the phrase
+ */
+export function buildDeepLink(phrase: Phrase): string {
+  return `https://www.youtube.com/watch?v=${encodeURIComponent(phrase.videoId)}&t=${Math.floor(phrase.startTime)}s`;
+}
+
+/**
+ * Anki tags cannot contain spaces
+ */
+function toTag(value: string): string {
+  return value.trim().replace(/\s+/g, '_');
+}
+
+function getDeckName(group: Group | null): string {
+  return `${DECK_PREFIX}::${group ? group.name : 'すべて'}`;
+}
+
+function getTags(group: Group | null): string[] {
+  const tags = [BASE_TAG];
+  if (group) {
+    tags.push(toTag(group.name), `color::${group.color.replace('#', '')}`);
+  }
+  return tags;
+}
+
+function buildNote(phrase: Phrase, tags: string[]): AnkiNote {
+  const link = buildDeepLink(phrase);
+  const time = `${formatTimestamp(phrase.startTime)} - ${formatTimestamp(phrase.endTime)}`;
+
+  const back = [
+    phrase.translatedText ? `<div>${escapeHtml(phrase.translatedText)}</div>` : '',
+    phrase.note ? `<div>📝 ${escapeHtml(phrase.note)}</div>` : '',
+    `<div><a href="${link}">▶ ${escapeHtml(phrase.videoTitle)} (${time})</a></div>`,
+  ].filter(Boolean).join('');
+
+  return {
+    front: escapeHtml(phrase.originalText),
+    back,
+    tags,
+  };
+}
+
+function buildNotes(source: AnkiDeckSource): AnkiNote[] {
+  const tags = getTags(source.group);
+  return source.phrases.map(phrase => buildNote(phrase, [...tags, ...phrase.tags.map(toTag)]));
+}
+
+// ============================================================
+// TSV
+// ============================================================
+
+/**
+ * Tabs and newlines would break the row structure
+ */
+function toTsvField(value: string): string {
+  return value.replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Build a TSV file (front, back, tags) with Anki import headers
+ */
+export function buildAnkiTsv(source: AnkiDeckSource): string {
+  const header = [
+    '#separator:tab',
+    '#html:true',
+    `#deck:${getDeckName(source.group)}`,
+    '#tags column:3',
+  ];
+
+  const rows = buildNotes(source).map(note =>
+    [note.front, note.back, note.tags.join(' ')].map(toTsvField).join('\t')
+  );
+
+  return [...header, ...rows].join('\n') + '\n';
+}
+
+// ============================================================
+// APKG
+// ============================================================
+
+const SCHEMA = `
+  CREATE TABLE col (
+    id integer primary key, crt integer not null, mod integer not null,
+    scm integer not null, ver integer not null, dty integer not null,
+    usn integer not null, ls integer not null, conf text not null,
+    models text not null, decks text not null, dconf text not null,
+    tags text not null
+  );
+  CREATE TABLE notes (
+    id integer primary key, guid text not null, mid integer not null,
+    mod integer not null, usn integer not null, tags text not null,
+    flds text not null, sfld integer not null, csum integer not null,
+    flags integer not null, data text not null
+  );
+  CREATE TABLE cards (
+    id integer primary key, nid integer not null, did integer not null,
+    ord integer not null, mod integer not null, usn integer not null,
+    type integer not null, queue integer not null, due integer not null,
+    ivl integer not null, factor integer not null, reps integer not null,
+    lapses integer not null, left integer not null, odue integer not null,
+    odid integer not null, flags integer not null, data text not null
+  );
+  CREATE TABLE revlog (
+    id integer primary key, cid integer not null, usn integer not null,
+    ease integer not null, ivl integer not null, lastIvl integer not null,
+    factor integer not null, time integer not null, type integer not null
+  );
+  CREATE TABLE graves (
+    usn integer not null, oid integer not null, type integer not null
+  );
+  CREATE INDEX ix_notes_usn on notes (usn);
+  CREATE INDEX ix_cards_usn on cards (usn);
+  CREATE INDEX ix_revlog_usn on revlog (usn);
+  CREATE INDEX ix_cards_nid on cards (nid);
+  CREATE INDEX ix_cards_sched on cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid on revlog (cid);
+  CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+function buildModel(deckId: number, nowSec: number): object {
+  const field = (name: string, ord: number) => ({
+    name, ord, font: 'Arial', size: 20, media: [], rtl: false, sticky: false,
+  });
+
+  return {
+    id: MODEL_ID,
+    name: 'Subtitle Loop',
+    type: 0,
+    mod: nowSec,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    flds: [field('Front', 0), field('Back', 1)],
+    tmpls: [{
+      name: 'Card 1',
+      ord: 0,
+      qfmt: '{{Front}}',
+      afmt: '{{FrontSide}}<hr id=answer>{{Back}}',
+      bqfmt: '',
+      bafmt: '',
+      did: null,
+    }],
+    req: [[0, 'all', [0]]],
+    tags: [],
+    vers: [],
+    css: '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }',
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+  };
+}
+
+function buildDeck(id: number, name: string, desc: string, nowSec: number): object {
+  return {
+    id,
+    name,
+    desc,
+    mod: nowSec,
+    usn: -1,
+    conf: 1,
+    dyn: 0,
+    collapsed: false,
+    extendNew: 10,
+    extendRev: 50,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  };
+}
+
+const DECK_CONFIG = {
+  1: {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+    lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+    rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 100 },
+  },
+};
+
+/**
+ * Anki's first-field checksum: first 8 hex digits of SHA-1 of the stripped field
+ */
+async function fieldChecksum(text: string): Promise<number> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  const view = new DataView(digest);
+  return view.getUint32(0);
+}
+
+/**
+ * Strip HTML for Anki's sort field
+ */
+function stripHtml(html: string): string {
+  const div = document.createElement('div');
+  div.innerHTML = html;
+  return div.textContent || '';
+}
+
+/**
+ * Deck ID derived from the deck name so re-exports land in the same deck
+ */
+function getDeckId(name: string): number {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) | 0;
+  }
+  return 1500000000000 + Math.abs(hash);
+}
+
+/**
+ * Build a .apkg package (zip with collection.anki2 and media)
+ */
+export async function buildAnkiPackage(source: AnkiDeckSource): Promise<Blob> {
+  const SQL = await initSqlJs({ locateFile: () => sqlWasmUrl });
+  const sqlDb = new SQL.Database();
+
+  try {
+    const now = Date.now();
+    const nowSec = Math.floor(now / 1000);
+    const deckName = getDeckName(source.group);
+    const deckId = getDeckId(deckName);
+    const deckDesc = source.group
+      ? `<span style="color: ${escapeHtml(source.group.color)}">●</span> ${escapeHtml(source.group.description || source.group.name)}`
+      : '';
+
+    sqlDb.run(SCHEMA);
+
+    sqlDb.run(
+      'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+      [
+        nowSec,
+        now,
+        now,
+        JSON.stringify({
+          activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0,
+          estTimes: true, dueCounts: true, curModel: String(MODEL_ID), nextPos: 1,
+          sortType: 'noteFld', sortBackwards: false, addToCur: true,
+        }),
+        JSON.stringify({ [MODEL_ID]: buildModel(deckId, nowSec) }),
+        JSON.stringify({
+          1: buildDeck(1, 'Default', '', nowSec),
+          [deckId]: buildDeck(deckId, deckName, deckDesc, nowSec),
+        }),
+        JSON.stringify(DECK_CONFIG),
+        '{}',
+      ]
+    );
+
+    const notes = buildNotes(source);
+    for (let i = 0; i < notes.length; i++) {
+      const note = notes[i];
+      const phrase = source.phrases[i];
+      const noteId = now + i;
+      const sortField = stripHtml(note.front);
+
+      sqlDb.run(
+        'INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')',
+        [
+          noteId,
+          phrase.id,
+          MODEL_ID,
+          nowSec,
+          ` ${note.tags.join(' ')} `,
+          [note.front, note.back].join('\x1f'),
+          sortField,
+          await fieldChecksum(sortField),
+        ]
+      );
+
+      // New card, queued in export order
+      sqlDb.run(
+        'INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')',
+        [noteId, noteId, deckId, nowSec, i + 1]
+      );
+    }
+
+    const collection = sqlDb.export();
+    const zipped = zipSync({
+      'collection.anki2': collection,
+      media: strToU8('{}'),
+    });
+
+    return new Blob([zipped], { type: 'application/octet-stream' });
+  } finally {
+    sqlDb.close();
+  }
+}
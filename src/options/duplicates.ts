@@ -0,0 +1,136 @@
+import { send } from '../messaging/client';
+import { escapeHtml, formatTimestamp, describeError } from './utils';
+import type { DuplicateCluster, DuplicateKind, MessageResponse } from '../types';
+
+const KIND_LABELS: Record<DuplicateKind, string> = {
+  'exact': '完全一致',
+  'overlap': '時間が重複',
+  'similar-text': 'ほぼ同じテキスト',
+};
+
+/**
+ * Duplicate finder modal
+ * Lists clusters of duplicate phrases across the library; each cluster can
+ * be merged into its oldest phrase, or single phrases deleted.
+ * `onChange` runs after anything is merged or deleted.
+ */
+export async function openDuplicateFinder(onChange: () => Promise<void>): Promise<void> {
+  let clusters: DuplicateCluster[] = [];
+
+  const modal = document.createElement('div');
+  modal.className = 'modal-overlay';
+  modal.innerHTML = `
+    <div class="modal modal-wide">
+      <div class="modal-header">
+        <h3>🧹 重複チェック</h3>
+        <button class="btn btn-icon" data-action="close">✕</button>
+      </div>
+      <div class="modal-body">
+        <p class="duplicate-hint">
+          同じ動画で範囲が重なるフレーズと、ほぼ同じテキストのフレーズを表示します。
+          「まとめる」は最も古いフレーズに範囲・メモ・タグを統合し、残りを削除します。
+        </p>
+        <div class="duplicate-list" data-duplicate-list>
+          <div class="empty-state">検索中…</div>
+        </div>
+      </div>
+      <div class="modal-footer">
+        <button class="btn btn-secondary" data-action="close">閉じる</button>
+      </div>
+    </div>
+  `;
+
+  const list = modal.querySelector('[data-duplicate-list]') as HTMLElement;
+
+  const load = async (): Promise<void> => {
+    const response = await send('FIND_DUPLICATES');
+    if (!response.success) {
+      list.innerHTML = `<div class="empty-state">❌ ${escapeHtml(describeError(response))}</div>`;
+      return;
+    }
+    clusters = response.data;
+    render();
+  };
+
+  const render = (): void => {
+    if (clusters.length === 0) {
+      list.innerHTML = '<div class="empty-state">✨ 重複は見つかりませんでした</div>';
+      return;
+    }
+
+    list.innerHTML = clusters.map((cluster, i) => `
+      <div class="duplicate-cluster">
+        <div class="duplicate-cluster-header">
+          <span class="duplicate-kind duplicate-kind-${cluster.kind}">${KIND_LABELS[cluster.kind]}</span>
+          <span class="duplicate-cluster-count">${cluster.phrases.length}件</span>
+          <button class="btn btn-secondary btn-small" data-action="merge" data-cluster="${i}">まとめる</button>
+        </div>
+        ${cluster.phrases.map((phrase, j) => `
+          <div class="duplicate-phrase">
+            <div class="duplicate-phrase-content">
+              <div class="duplicate-phrase-text">${escapeHtml(phrase.originalText)}</div>
+              <div class="duplicate-phrase-meta">
+                ${j === 0 ? '<span class="duplicate-keep">残す</span>' : ''}
+                ${escapeHtml(phrase.videoTitle)} ·
+                ${formatTimestamp(phrase.startTime)} - ${formatTimestamp(phrase.endTime)} ·
+                ${new Date(phrase.createdAt).toLocaleDateString('ja-JP')}
+              </div>
+            </div>
+            <button class="btn btn-icon btn-small" data-action="delete" data-phrase-id="${phrase.id}" title="削除">🗑️</button>
+          </div>
+        `).join('')}
+      </div>
+    `).join('');
+  };
+
+  const close = (): void => {
+    document.removeEventListener('keydown', handleKeydown, true);
+    modal.remove();
+  };
+
+  const handleKeydown = (e: KeyboardEvent): void => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      close();
+    }
+  };
+
+  modal.addEventListener('click', async (e) => {
+    const target = e.target as HTMLElement;
+    const actionEl = target.closest('[data-action]') as HTMLButtonElement | null;
+    const action = actionEl?.getAttribute('data-action');
+
+    if (action === 'close' || target === modal) {
+      close();
+      return;
+    }
+
+    if (!actionEl || (action !== 'merge' && action !== 'delete')) return;
+
+    let response: MessageResponse;
+    if (action === 'merge') {
+      const [keep, ...sources] = clusters[Number(actionEl.getAttribute('data-cluster'))].phrases;
+      if (!confirm(`${sources.length + 1}件のフレーズを1件にまとめますか？`)) return;
+
+      actionEl.disabled = true;
+      response = await send('MERGE_PHRASES', { targetId: keep.id, sourceIds: sources.map(p => p.id) });
+    } else {
+      if (!confirm('このフレーズを削除しますか？')) return;
+
+      actionEl.disabled = true;
+      response = await send('DELETE_PHRASE', { id: actionEl.getAttribute('data-phrase-id') ?? '' });
+    }
+
+    if (!response.success) {
+      alert(`操作に失敗しました: ${describeError(response)}`);
+      actionEl.disabled = false;
+      return;
+    }
+
+    await Promise.all([load(), onChange()]);
+  });
+
+  document.addEventListener('keydown', handleKeydown, true);
+  document.body.appendChild(modal);
+  await load();
+}
@@ -0,0 +1,251 @@
+import { send } from '../messaging/client';
+import { escapeHtml, describeError } from './utils';
+import type { StorageInfo, BulkDeletePhrasesPayload } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** "Older than" choices in days */
+const AGE_OPTIONS: Array<{ days: number; label: string }> = [
+  { days: 90, label: '3か月' },
+  { days: 180, label: '6か月' },
+  { days: 365, label: '1年' },
+  { days: 730, label: '2年' },
+];
+
+/**
+ * Ask the browser not to evict the library under storage pressure
+ * Only windows can request this, so the options page does it on load.
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted()) return true;
+
+  const granted = await navigator.storage.persist();
+  console.log('[Subtitle Loop] Persistent storage', granted ? 'granted' : 'denied');
+  return granted;
+}
+
+/**
+ * Storage & housekeeping modal
+ * Shows storage usage and phrases per video; bulk-deletes phrases by video
+ * or by age and clears references to deleted groups.
+ * `onChange` runs after anything is deleted or fixed.
+ */
+export async function openHousekeeping(onChange: () => Promise<void>): Promise<void> {
+  let info: StorageInfo | null = null;
+
+  const modal = document.createElement('div');
+  modal.className = 'modal-overlay';
+  modal.innerHTML = `
+    <div class="modal modal-wide">
+      <div class="modal-header">
+        <h3>🧰 ストレージ管理</h3>
+        <button class="btn btn-icon" data-action="close">✕</button>
+      </div>
+      <div class="modal-body" data-housekeeping>
+        <div class="empty-state">読み込み中…</div>
+      </div>
+      <div class="modal-footer">
+        <button class="btn btn-secondary" data-action="close">閉じる</button>
+      </div>
+    </div>
+  `;
+
+  const body = modal.querySelector('[data-housekeeping]') as HTMLElement;
+
+  const load = async (): Promise<void> => {
+    const response = await send('GET_STORAGE_INFO');
+    if (!response.success) {
+      body.innerHTML = `<div class="empty-state">❌ ${escapeHtml(describeError(response))}</div>`;
+      return;
+    }
+    info = response.data;
+    render(info);
+  };
+
+  const render = (info: StorageInfo): void => {
+    body.innerHTML = `
+      <section class="housekeeping-section">
+        <h4>使用量</h4>
+        <div class="housekeeping-usage">
+          ${renderUsage(info)}
+          <div class="housekeeping-meta">
+            フレーズ ${info.tables.phrases}件 · グループ ${info.tables.groups}件 · 復習履歴 ${info.tables.reviews}件
+          </div>
+          <div class="housekeeping-meta">
+            ${info.persisted
+              ? '🔒 永続ストレージ: 有効（容量不足でも自動で削除されません）'
+              : '⚠️ 永続ストレージ: 無効（容量不足のときブラウザに削除される可能性があります）'}
+            ${info.persisted ? '' : '<button class="btn btn-secondary btn-small" data-action="persist">有効にする</button>'}
+          </div>
+        </div>
+      </section>
+
+      <section class="housekeeping-section">
+        <h4>動画ごとのフレーズ</h4>
+        ${info.videos.length === 0
+          ? '<div class="empty-state">フレーズはまだありません</div>'
+          : `
+            <div class="housekeeping-video-list">
+              ${info.videos.map(video => `
+                <label class="housekeeping-video">
+                  <input type="checkbox" data-video-id="${escapeHtml(video.videoId)}">
+                  <span class="housekeeping-video-title">${escapeHtml(video.videoTitle)}</span>
+                  <span class="housekeeping-video-meta">
+                    ${video.count}件 · 最終保存 ${new Date(video.lastSavedAt).toLocaleDateString('ja-JP')}
+                  </span>
+                </label>
+              `).join('')}
+            </div>
+            <button class="btn btn-danger btn-small" data-action="delete-videos" disabled>選択した動画のフレーズを削除</button>
+          `}
+      </section>
+
+      <section class="housekeeping-section">
+        <h4>古いフレーズ</h4>
+        <div class="housekeeping-row">
+          <select data-age>
+            ${AGE_OPTIONS.map(option => `<option value="${option.days}">${option.label}</option>`).join('')}
+          </select>
+          より前に追加したフレーズを
+          <button class="btn btn-danger btn-small" data-action="delete-old">削除</button>
+        </div>
+      </section>
+
+      <section class="housekeeping-section">
+        <h4>グループ参照</h4>
+        <div class="housekeeping-row">
+          ${info.orphanedGroupRefs === 0
+            ? '✨ 削除済みのグループを参照しているフレーズはありません'
+            : `${info.orphanedGroupRefs}件のフレーズが削除済みのグループを参照しています
+               <button class="btn btn-secondary btn-small" data-action="clean-groups">未分類に戻す</button>`}
+        </div>
+      </section>
+    `;
+  };
+
+  const getSelectedVideoIds = (): string[] =>
+    Array.from(body.querySelectorAll<HTMLInputElement>('[data-video-id]:checked'))
+      .map(input => input.getAttribute('data-video-id') ?? '');
+
+  const deletePhrases = async (filters: BulkDeletePhrasesPayload, button: HTMLButtonElement): Promise<void> => {
+    button.disabled = true;
+    const response = await send('BULK_DELETE_PHRASES', filters);
+    if (!response.success) {
+      alert(`削除に失敗しました: ${describeError(response)}`);
+      button.disabled = false;
+      return;
+    }
+
+    alert(`${response.data.deleted}件のフレーズを削除しました`);
+    await Promise.all([load(), onChange()]);
+  };
+
+  const close = (): void => {
+    document.removeEventListener('keydown', handleKeydown, true);
+    modal.remove();
+  };
+
+  const handleKeydown = (e: KeyboardEvent): void => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      close();
+    }
+  };
+
+  modal.addEventListener('change', (e) => {
+    if ((e.target as HTMLElement).matches('[data-video-id]')) {
+      const button = body.querySelector('[data-action="delete-videos"]') as HTMLButtonElement | null;
+      if (button) button.disabled = getSelectedVideoIds().length === 0;
+    }
+  });
+
+  modal.addEventListener('click', async (e) => {
+    const target = e.target as HTMLElement;
+    const actionEl = target.closest('[data-action]') as HTMLButtonElement | null;
+    const action = actionEl?.getAttribute('data-action');
+
+    if (action === 'close' || target === modal) {
+      close();
+      return;
+    }
+
+    if (!actionEl || !info) return;
+
+    switch (action) {
+      case 'persist': {
+        if (!(await requestPersistentStorage())) {
+          alert('ブラウザが永続ストレージを許可しませんでした');
+        }
+        await load();
+        break;
+      }
+
+      case 'delete-videos': {
+        const videoIds = getSelectedVideoIds();
+        const count = info.videos
+          .filter(video => videoIds.includes(video.videoId))
+          .reduce((sum, video) => sum + video.count, 0);
+        if (!confirm(`${videoIds.length}本の動画のフレーズ（${count}件）を削除しますか？\nこの操作は元に戻せません。`)) return;
+
+        await deletePhrases({ videoIds }, actionEl);
+        break;
+      }
+
+      case 'delete-old': {
+        const days = Number((body.querySelector('[data-age]') as HTMLSelectElement).value);
+        const before = new Date(Date.now() - days * DAY_MS);
+        if (!confirm(`${before.toLocaleDateString('ja-JP')}より前に追加したフレーズを削除しますか？\nこの操作は元に戻せません。`)) return;
+
+        await deletePhrases({ createdBefore: before.getTime() }, actionEl);
+        break;
+      }
+
+      case 'clean-groups': {
+        actionEl.disabled = true;
+        const response = await send('CLEAN_ORPHANED_GROUPS');
+        if (!response.success) {
+          alert(`修正に失敗しました: ${describeError(response)}`);
+          actionEl.disabled = false;
+          return;
+        }
+        await Promise.all([load(), onChange()]);
+        break;
+      }
+    }
+  });
+
+  document.addEventListener('keydown', handleKeydown, true);
+  document.body.appendChild(modal);
+  await load();
+}
+
+/**
+ * "12.3 MB / 2.0 GB (0.6%)" with a bar, or a note if unsupported
+ */
+function renderUsage(info: StorageInfo): string {
+  if (info.usage === null || info.quota === null) {
+    return '<div class="housekeeping-meta">このブラウザでは使用量を取得できません</div>';
+  }
+
+  const percent = info.quota > 0 ? (info.usage / info.quota) * 100 : 0;
+  return `
+    <div class="housekeeping-usage-text">
+      ${formatBytes(info.usage)} / ${formatBytes(info.quota)} (${percent.toFixed(1)}%)
+    </div>
+    <div class="housekeeping-bar">
+      <div class="housekeeping-bar-fill" style="width: ${Math.min(100, Math.max(percent, 0.5))}%"></div>
+    </div>
+  `;
+}
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
@@ -1,18 +1,83 @@
-import type { Phrase, Group } from '../types';
+import type {
+  Phrase,
+  Group,
+  ImportStrategy,
+  PhraseSortKey,
+  QueryPhrasesPayload,
+  SortDirection,
+  TagCount,
+  VideoPhraseCount,
+  PhraseUpdates,
+  PhraseChangedPayload,
+  GroupChangedPayload
+} from '../types';
 import { GROUP_COLORS } from '../content/constants';
+import { send, onBroadcast } from '../messaging/client';
+import { parsePhraseChangedPayload, parseGroupChangedPayload } from '../messaging/payloads';
+import { formatTimestamp, escapeHtml, highlightHtml, downloadBlob, describeError } from './utils';
+import { parseSearchQuery, findMatchRanges, isEmptyQuery, type SearchQuery } from '../db/search';
+import { endOfDay } from '../db/srs';
+import { buildAnkiTsv, buildAnkiPackage } from './anki';
+import { openShortcutSettings } from './shortcuts';
+import { openDuplicateFinder } from './duplicates';
+import { openHousekeeping, requestPersistentStorage } from './housekeeping';
+import { TagInput } from '../content/ui/tag-input';
+import { formatPreciseTimestamp, parseTimeInput } from '../content/transcript';
+import {
+  validatePhraseUpdates,
+  MAX_PHRASE_TEXT_LENGTH,
+  MIN_PHRASE_DURATION,
+  type PhraseFieldError,
+  type ValidationReason
+} from '../db/validation';
 
 console.log('[Subtitle Loop] Options page loaded');
 
+/** Phrases fetched per infinite-scroll page */
+const PAGE_SIZE = 50;
+
+/** Sort select values */
+const SORT_OPTIONS: Record<string, { sortBy: PhraseSortKey; direction: SortDirection }> = {
+  newest: { sortBy: 'createdAt', direction: 'desc' },
+  oldest: { sortBy: 'createdAt', direction: 'asc' },
+  updated: { sortBy: 'updatedAt', direction: 'desc' },
+  video: { sortBy: 'videoTitle', direction: 'asc' },
+  due: { sortBy: 'dueAt', direction: 'asc' },
+  // Position within one video; only offered while a video is selected
+  start: { sortBy: 'startTime', direction: 'asc' },
+};
+
+/** Sort options that need a video filter */
+const VIDEO_SORT_OPTIONS = new Set(['start']);
+
 // State
 let groups: Group[] = [];
+let tags: TagCount[] = [];
 let phrases: Phrase[] = [];
+let videos: VideoPhraseCount[] = [];
 let selectedGroupId: string | null = null;
+let selectedTag: string | null = null;
+let selectedVideoId: string | null = null;
+/** Date filter inputs ('YYYY-MM-DD', '' = open-ended) */
+let createdFrom = '';
+let createdTo = '';
 let selectedPhrase: Phrase | null = null;
 let editingGroupId: string | null = null;
 let selectedPhraseIds: Set<string> = new Set();
+let searchText = '';
+let searchQuery: SearchQuery = parseSearchQuery('');
+let searchTimer: number | null = null;
+let sortOption = 'newest';
+let nextCursor: string | null = null;
+let isLoadingMore = false;
+/** Bumped on every reload so in-flight pages for an old query are dropped */
+let queryVersion = 0;
+/** Why the last phrase query failed (shown instead of an empty list) */
+let phraseLoadError: string | null = null;
 
 // DOM Elements
 const groupList = document.getElementById('group-list')!;
+const tagList = document.getElementById('tag-list')!;
 const phraseList = document.getElementById('phrase-list')!;
 const currentGroupName = document.getElementById('current-group-name')!;
 const phraseCount = document.getElementById('phrase-count')!;
@@ -23,11 +88,26 @@ const groupModalTitle = document.getElementById('group-modal-title')!;
 const phraseModal = document.getElementById('phrase-modal')!;
 const phraseDetail = document.getElementById('phrase-detail')!;
 const colorPicker = document.getElementById('color-picker')!;
+const dueCount = document.getElementById('due-count')!;
+const importFileInput = document.getElementById('import-file') as HTMLInputElement;
+const searchInput = document.getElementById('search-input') as HTMLInputElement;
+const sortSelect = document.getElementById('sort-select') as HTMLSelectElement;
+const videoFilter = document.getElementById('video-filter') as HTMLSelectElement;
+const createdFromInput = document.getElementById('created-from') as HTMLInputElement;
+const createdToInput = document.getElementById('created-to') as HTMLInputElement;
+const clearFiltersBtn = document.getElementById('clear-filters') as HTMLButtonElement;
+const phraseListMore = document.getElementById('phrase-list-more')!;
+const storageNotice = document.getElementById('storage-notice')!;
 
 // Initialize
 document.addEventListener('DOMContentLoaded', async () => {
   initColorPicker();
   setupEventListeners();
+  onBroadcast('PHRASE_CHANGED', parsePhraseChangedPayload, handlePhraseChanges);
+  onBroadcast('GROUP_CHANGED', parseGroupChangedPayload, handleGroupChanges);
+  requestPersistentStorage().catch((error) => {
+    console.warn('[Subtitle Loop] Persistent storage request failed:', error);
+  });
   await loadData();
 });
 
@@ -36,37 +116,172 @@ document.addEventListener('DOMContentLoaded', async () => {
 // ============================================================
 
 async function loadData(): Promise<void> {
-  await Promise.all([loadGroups(), loadPhrases()]);
+  await Promise.all([loadGroups(), loadTags(), loadVideos(), loadPhrases(), loadDueCount(), loadStorageStatus()]);
   renderGroups();
+  renderTags();
+  renderFilters();
   renderPhrases();
 }
 
+async function loadDueCount(): Promise<void> {
+  const response = await send('GET_DUE_PHRASES');
+  if (response.success) {
+    dueCount.textContent = response.data.length > 0 ? `(${response.data.length})` : '';
+  }
+}
+
+/**
+ * Warn when IndexedDB is unavailable and saves go to fallback storage
+ */
+async function loadStorageStatus(): Promise<void> {
+  const response = await send('DB_STATUS');
+  if (!response.success) return;
+
+  const { mode, pendingCount, error } = response.data;
+  storageNotice.hidden = mode !== 'fallback';
+  storageNotice.textContent = mode === 'fallback'
+    ? `⚠️ データベースを開けないため、ライブラリを表示できません（${error ?? '不明なエラー'}）。` +
+      `YouTubeで保存したフレーズ（${pendingCount}件）は一時保存され、復旧後に自動で追加されます。`
+    : '';
+}
+
 async function loadGroups(): Promise<void> {
-  const response = await chrome.runtime.sendMessage({ type: 'GET_GROUPS' });
+  const response = await send('GET_GROUPS');
   if (response.success) {
     groups = response.data;
   }
 }
 
+async function loadVideos(): Promise<void> {
+  const response = await send('GET_VIDEOS');
+  if (response.success) {
+    videos = response.data;
+  }
+}
+
+async function loadTags(): Promise<void> {
+  const response = await send('GET_TAGS');
+  if (response.success) {
+    tags = response.data;
+  }
+}
+
 async function loadPhrases(): Promise<void> {
-  const payload = selectedGroupId !== null
-    ? { groupId: selectedGroupId }
-    : undefined;
+  const version = ++queryVersion;
+
+  if (!isEmptyQuery(searchQuery)) {
+    const response = await send('SEARCH_PHRASES', {
+      query: searchText,
+      groupId: selectedGroupId,
+      tag: selectedTag ?? undefined,
+      videoId: selectedVideoId ?? undefined,
+      ...getCreatedRange(),
+    });
 
-  const response = await chrome.runtime.sendMessage({
-    type: 'GET_PHRASES',
-    payload
+    if (version !== queryVersion) return;
+    if (response.success) {
+      phrases = response.data;
+      nextCursor = null;
+    }
+    phraseLoadError = response.success ? null : describeError(response);
+    return;
+  }
+
+  // Reload everything already shown so edits keep the scroll position
+  const response = await send('QUERY_PHRASES', {
+    ...getPhraseQuery(),
+    limit: Math.max(PAGE_SIZE, phrases.length),
   });
 
+  if (version !== queryVersion) return;
   if (response.success) {
-    phrases = response.data;
+    phrases = response.data.phrases;
+    nextCursor = response.data.nextCursor;
   }
+  phraseLoadError = response.success ? null : describeError(response);
+}
+
+/**
+ * Append the next page (infinite scroll)
+ */
+async function loadMorePhrases(): Promise<void> {
+  if (!nextCursor || isLoadingMore) return;
+
+  isLoadingMore = true;
+  const version = queryVersion;
+
+  try {
+    const response = await send('QUERY_PHRASES', { ...getPhraseQuery(), limit: PAGE_SIZE, cursor: nextCursor });
+
+    if (response.success && version === queryVersion) {
+      phrases = [...phrases, ...response.data.phrases];
+      nextCursor = response.data.nextCursor;
+      renderPhrases();
+    }
+  } catch (error) {
+    console.error('[Subtitle Loop] Error loading more phrases:', error);
+  } finally {
+    isLoadingMore = false;
+  }
+}
+
+/**
+ * Current filter and sort as a query (without paging)
+ */
+function getPhraseQuery(): QueryPhrasesPayload {
+  return {
+    groupId: selectedGroupId ?? undefined,
+    tag: selectedTag ?? undefined,
+    videoId: selectedVideoId ?? undefined,
+    ...getCreatedRange(),
+    ...SORT_OPTIONS[sortOption],
+  };
+}
+
+/**
+ * Date filter as epoch ms, both ends inclusive (local days)
+ */
+function getCreatedRange(): { createdFrom?: number; createdTo?: number } {
+  return {
+    createdFrom: createdFrom ? new Date(`${createdFrom}T00:00`).getTime() : undefined,
+    createdTo: createdTo ? endOfDay(new Date(`${createdTo}T00:00`)).getTime() : undefined,
+  };
+}
+
+/**
+ * Start over from the first page (filter or sort changed)
+ */
+async function reloadPhrases(): Promise<void> {
+  phrases = [];
+  nextCursor = null;
+  await loadPhrases();
+  document.getElementById('main')?.scrollTo({ top: 0 });
 }
 
 // ============================================================
 // RENDERING
 // ============================================================
 
+function renderFilters(): void {
+  videoFilter.innerHTML = `
+    <option value="">すべての動画</option>
+    ${videos.map(video => `
+      <option value="${escapeHtml(video.videoId)}" ${video.videoId === selectedVideoId ? 'selected' : ''}>${escapeHtml(video.videoTitle)} (${video.count})</option>
+    `).join('')}
+  `;
+  createdFromInput.value = createdFrom;
+  createdToInput.value = createdTo;
+  createdFromInput.max = createdTo;
+  createdToInput.min = createdFrom;
+  clearFiltersBtn.hidden = selectedVideoId === null && !createdFrom && !createdTo;
+
+  for (const option of Array.from(sortSelect.options)) {
+    if (VIDEO_SORT_OPTIONS.has(option.value)) {
+      option.disabled = selectedVideoId === null;
+    }
+  }
+}
+
 function renderGroups(): void {
   groupList.innerHTML = `
     <button class="group-item ${selectedGroupId === null ? 'active' : ''}"
@@ -90,6 +305,27 @@ function renderGroups(): void {
   `;
 }
 
+function renderTags(): void {
+  if (tags.length === 0) {
+    tagList.innerHTML = '<p class="tag-list-empty">タグはまだありません</p>';
+    return;
+  }
+
+  tagList.innerHTML = tags.map(tag => `
+    <button class="tag-item ${selectedTag === tag.name ? 'active' : ''}"
+            data-tag="${encodeURIComponent(tag.name)}">
+      #${escapeHtml(tag.name)}
+      <span class="tag-count">${tag.count}</span>
+    </button>
+  `).join('');
+}
+
+function renderTitle(): void {
+  const group = groups.find(g => g.id === selectedGroupId);
+  const groupName = selectedGroupId === null ? 'すべてのフレーズ' : group?.name || 'グループ';
+  currentGroupName.textContent = selectedTag ? `${groupName} #${selectedTag}` : groupName;
+}
+
 function renderPhrases(): void {
   // Render bulk toolbar if any phrases are selected
   const mainHeader = document.querySelector('.main-header')!;
@@ -107,6 +343,8 @@ function renderPhrases(): void {
       </div>
       <div class="bulk-toolbar-right">
         <button class="btn" id="bulk-assign-group">グループに追加</button>
+        <button class="btn" id="bulk-add-tags">タグを追加</button>
+        <button class="btn" id="bulk-remove-tags">タグを外す</button>
         <button class="btn" id="bulk-clear">選択解除</button>
       </div>
     `;
@@ -114,6 +352,29 @@ function renderPhrases(): void {
     document.getElementById('bulk-toolbar')?.remove();
   }
 
+  if (phrases.length === 0 && phraseLoadError) {
+    phraseList.innerHTML = `
+      <div class="empty-state">
+        <p>⚠️ フレーズを読み込めませんでした</p>
+        <p class="hint">${escapeHtml(phraseLoadError)}</p>
+      </div>
+    `;
+    phraseCount.textContent = '';
+    updateLoadMore();
+    return;
+  }
+
+  if (phrases.length === 0 && !isEmptyQuery(searchQuery)) {
+    phraseList.innerHTML = `
+      <div class="empty-state">
+        <p>「${escapeHtml(searchText.trim())}」に一致するフレーズはありません</p>
+      </div>
+    `;
+    phraseCount.textContent = '(0件)';
+    updateLoadMore();
+    return;
+  }
+
   if (phrases.length === 0) {
     phraseList.innerHTML = `
       <div class="empty-state">
@@ -122,10 +383,11 @@ function renderPhrases(): void {
       </div>
     `;
     phraseCount.textContent = '';
+    updateLoadMore();
     return;
   }
 
-  phraseCount.textContent = `(${phrases.length}件)`;
+  phraseCount.textContent = nextCursor ? `(${phrases.length}件以上)` : `(${phrases.length}件)`;
 
   phraseList.innerHTML = phrases.map(phrase => {
     const isSelected = selectedPhraseIds.has(phrase.id);
@@ -138,18 +400,57 @@ function renderPhrases(): void {
                  ${isSelected ? 'checked' : ''}>
         </div>
         <div class="phrase-content">
-          <div class="phrase-video">${escapeHtml(phrase.videoTitle)}</div>
-          <div class="phrase-text">"${escapeHtml(phrase.originalText)}"</div>
+          <div class="phrase-video">${highlight(phrase.videoTitle)}</div>
+          <div class="phrase-text">"${highlight(phrase.originalText)}"</div>
+          ${phrase.translatedText ? `<div class="phrase-translation">${highlight(phrase.translatedText)}</div>` : ''}
           <div class="phrase-meta">
             <span class="phrase-time">
               ${formatTimestamp(phrase.startTime)} - ${formatTimestamp(phrase.endTime)}
             </span>
-            ${phrase.note ? `<span class="phrase-note">📝 ${escapeHtml(phrase.note)}</span>` : ''}
+            ${phrase.note ? `<span class="phrase-note">📝 ${highlight(phrase.note)}</span>` : ''}
+            ${phrase.tags.length > 0 ? `
+              <span class="phrase-tags">
+                ${phrase.tags.map(tag => `<span class="tag-chip">#${escapeHtml(tag)}</span>`).join('')}
+              </span>
+            ` : ''}
           </div>
         </div>
       </div>
     `;
   }).join('');
+
+  updateLoadMore();
+}
+
+// ============================================================
+// INFINITE SCROLL
+// ============================================================
+
+const loadMoreObserver = new IntersectionObserver((entries) => {
+  if (entries.some(entry => entry.isIntersecting)) {
+    loadMorePhrases();
+  }
+}, { root: document.getElementById('main'), rootMargin: '400px' });
+
+/**
+ * Show the loading row while more pages exist
+ * Re-observing makes the observer report again, so a page that doesn't
+ * fill the screen still triggers the next load.
+ */
+function updateLoadMore(): void {
+  phraseListMore.hidden = nextCursor === null;
+  loadMoreObserver.unobserve(phraseListMore);
+  loadMoreObserver.observe(phraseListMore);
+}
+
+/**
+ * Escape text and mark search matches
+ */
+function highlight(text: string): string {
+  if (isEmptyQuery(searchQuery)) {
+    return escapeHtml(text);
+  }
+  return highlightHtml(text, findMatchRanges(text, searchQuery));
 }
 
 function initColorPicker(): void {
@@ -186,6 +487,16 @@ function setupEventListeners(): void {
     }
   });
 
+  // Tag filter (click again to clear)
+  tagList.addEventListener('click', async (e) => {
+    const tagItem = (e.target as HTMLElement).closest('[data-tag]');
+    const encoded = tagItem?.getAttribute('data-tag');
+    if (encoded) {
+      const tag = decodeURIComponent(encoded);
+      await selectTag(selectedTag === tag ? null : tag);
+    }
+  });
+
   // Add group button
   addGroupBtn.addEventListener('click', openCreateGroupModal);
 
@@ -198,7 +509,7 @@ function setupEventListeners(): void {
   });
 
   document.querySelectorAll('[data-action="close-phrase-modal"]').forEach(btn => {
-    btn.addEventListener('click', closePhraseModal);
+    btn.addEventListener('click', () => closePhraseModal());
   });
 
   // Phrase checkbox toggle
@@ -235,6 +546,37 @@ function setupEventListeners(): void {
     }
   });
 
+  // Search (debounced)
+  searchInput.addEventListener('input', () => {
+    if (searchTimer !== null) clearTimeout(searchTimer);
+    searchTimer = window.setTimeout(handleSearch, 200);
+  });
+
+  sortSelect.addEventListener('change', handleSortChange);
+
+  // Video / date filters
+  videoFilter.addEventListener('change', () => selectVideo(videoFilter.value || null));
+  createdFromInput.addEventListener('change', handleDateFilterChange);
+  createdToInput.addEventListener('change', handleDateFilterChange);
+  clearFiltersBtn.addEventListener('click', clearFilters);
+
+  // Library export/import
+  document.getElementById('export-library')?.addEventListener('click', exportLibrary);
+  document.getElementById('import-library')?.addEventListener('click', () => importFileInput.click());
+  importFileInput.addEventListener('change', handleImportFile);
+  document.getElementById('export-anki')?.addEventListener('click', exportAnkiDeck);
+
+  // Shortcut settings
+  document.getElementById('open-shortcuts')?.addEventListener('click', openShortcutSettings);
+  document.getElementById('open-duplicates')?.addEventListener('click', () => openDuplicateFinder(async () => {
+    selectedPhraseIds.clear();
+    await loadData();
+  }));
+  document.getElementById('open-housekeeping')?.addEventListener('click', () => openHousekeeping(async () => {
+    selectedPhraseIds.clear();
+    await loadData();
+  }));
+
   // Phrase modal actions
   document.getElementById('play-phrase')?.addEventListener('click', playSelectedPhrase);
   document.getElementById('delete-phrase')?.addEventListener('click', deleteSelectedPhrase);
@@ -249,22 +591,72 @@ function setupEventListeners(): void {
   });
 }
 
+async function handleSearch(): Promise<void> {
+  searchTimer = null;
+  searchText = searchInput.value;
+  searchQuery = parseSearchQuery(searchText);
+  sortSelect.disabled = !isEmptyQuery(searchQuery); // Search results are newest first
+  await reloadPhrases();
+  renderPhrases();
+}
+
+async function handleSortChange(): Promise<void> {
+  sortOption = sortSelect.value;
+  await reloadPhrases();
+  renderPhrases();
+}
+
+async function selectVideo(videoId: string | null): Promise<void> {
+  selectedVideoId = videoId;
+  selectedPhraseIds.clear();
+
+  // Start-time order is only meaningful within one video
+  if (videoId === null && VIDEO_SORT_OPTIONS.has(sortOption)) {
+    sortOption = 'newest';
+    sortSelect.value = sortOption;
+  }
+
+  await reloadPhrases();
+  renderFilters();
+  renderPhrases();
+}
+
+async function handleDateFilterChange(): Promise<void> {
+  createdFrom = createdFromInput.value;
+  createdTo = createdToInput.value;
+  selectedPhraseIds.clear();
+
+  await reloadPhrases();
+  renderFilters();
+  renderPhrases();
+}
+
+async function clearFilters(): Promise<void> {
+  createdFrom = '';
+  createdTo = '';
+  await selectVideo(null);
+}
+
 async function selectGroup(groupId: string | null): Promise<void> {
   selectedGroupId = groupId;
   selectedPhraseIds.clear(); // Clear selection when switching groups
+  renderTitle();
 
-  if (groupId === null) {
-    currentGroupName.textContent = 'すべてのフレーズ';
-  } else {
-    const group = groups.find(g => g.id === groupId);
-    currentGroupName.textContent = group?.name || 'グループ';
-  }
-
-  await loadPhrases();
+  await reloadPhrases();
   renderGroups();
   renderPhrases();
 }
 
+async function selectTag(tag: string | null): Promise<void> {
+  selectedTag = tag;
+  selectedPhraseIds.clear();
+  renderTitle();
+
+  await reloadPhrases();
+  renderTags();
+  renderPhrases();
+}
+
 function setupBulkActions(): void {
   document.getElementById('bulk-clear')?.addEventListener('click', () => {
     selectedPhraseIds.clear();
@@ -277,16 +669,88 @@ function setupBulkActions(): void {
     if (selectedGroup !== undefined) {
       // Assign all selected phrases to the group
       for (const phraseId of selectedPhraseIds) {
-        await chrome.runtime.sendMessage({
-          type: 'UPDATE_PHRASE',
-          payload: { id: phraseId, updates: { groupId: selectedGroup } }
-        });
+        await send('UPDATE_PHRASE', { id: phraseId, updates: { groupId: selectedGroup } });
       }
       selectedPhraseIds.clear();
       await loadPhrases();
       renderPhrases();
     }
   });
+
+  document.getElementById('bulk-add-tags')?.addEventListener('click', () => bulkEditTags('add'));
+  document.getElementById('bulk-remove-tags')?.addEventListener('click', () => bulkEditTags('remove'));
+}
+
+/**
+ * Add or remove tags on all selected phrases
+ */
+async function bulkEditTags(mode: 'add' | 'remove'): Promise<void> {
+  // Removal only offers tags the selection actually has
+  const suggestions = mode === 'add'
+    ? tags.map(t => t.name)
+    : [...new Set(phrases.filter(p => selectedPhraseIds.has(p.id)).flatMap(p => p.tags))];
+
+  const selectedTags = await showBulkTagModal(mode, suggestions);
+  if (!selectedTags || selectedTags.length === 0) return;
+
+  const response = await send('UPDATE_TAGS', {
+    phraseIds: [...selectedPhraseIds],
+    [mode]: selectedTags,
+  });
+
+  if (!response.success) {
+    alert(`タグの更新に失敗しました: ${describeError(response)}`);
+    return;
+  }
+
+  await Promise.all([loadTags(), loadPhrases()]);
+  renderTags();
+  renderPhrases();
+  setupBulkActions();
+}
+
+async function showBulkTagModal(mode: 'add' | 'remove', suggestions: string[]): Promise<string[] | undefined> {
+  return new Promise((resolve) => {
+    const modal = document.createElement('div');
+    modal.className = 'modal-overlay';
+    modal.innerHTML = `
+      <div class="modal">
+        <div class="modal-header">
+          <h3>${mode === 'add' ? 'タグを追加' : 'タグを外す'}</h3>
+          <button class="btn btn-icon" data-action="close">✕</button>
+        </div>
+        <div class="modal-body">
+          <div class="form-field">
+            <label>${selectedPhraseIds.size}件のフレーズ</label>
+            <div data-tags></div>
+          </div>
+        </div>
+        <div class="modal-footer">
+          <button class="btn btn-secondary" data-action="close">キャンセル</button>
+          <button class="btn btn-primary" data-action="confirm">適用</button>
+        </div>
+      </div>
+    `;
+
+    const tagInput = new TagInput({ suggestions });
+    modal.querySelector('[data-tags]')!.appendChild(tagInput.element);
+    document.body.appendChild(modal);
+    tagInput.focus();
+
+    modal.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const action = target.closest('[data-action]')?.getAttribute('data-action');
+
+      if (action === 'close' || target === modal) {
+        modal.remove();
+        resolve(undefined);
+      } else if (action === 'confirm') {
+        const selectedTags = tagInput.getTags();
+        modal.remove();
+        resolve(selectedTags);
+      }
+    });
+  });
 }
 
 async function showGroupSelectionModal(): Promise<string | null | undefined> {
@@ -382,16 +846,10 @@ async function handleGroupFormSubmit(e: Event): Promise<void> {
 
   if (editingGroupId) {
     // Update
-    await chrome.runtime.sendMessage({
-      type: 'UPDATE_GROUP',
-      payload: { id: editingGroupId, updates: { name, description, color } }
-    });
+    await send('UPDATE_GROUP', { id: editingGroupId, updates: { name, description, color } });
   } else {
     // Create
-    await chrome.runtime.sendMessage({
-      type: 'CREATE_GROUP',
-      payload: { name, description, color }
-    });
+    await send('CREATE_GROUP', { name, description, color });
   }
 
   closeGroupModal();
@@ -403,39 +861,94 @@ async function handleGroupFormSubmit(e: Event): Promise<void> {
 // PHRASE MODAL
 // ============================================================
 
+const EDIT_TEXT_FIELDS = ['originalText', 'translatedText', 'note'] as const;
+const EDIT_TIME_FIELDS = ['startTime', 'endTime'] as const;
+
+const VALIDATION_MESSAGES: Record<ValidationReason, string> = {
+  'invalid': '入力内容が正しくありません',
+  'required': '入力してください',
+  'too-long': `${MAX_PHRASE_TEXT_LENGTH}文字以内で入力してください`,
+  'negative': '0以上の時間を入力してください',
+  'order': `終了は開始より${MIN_PHRASE_DURATION}秒以上後にしてください`,
+  'not-editable': 'この項目は変更できません',
+};
+
+/** Previous values of each saved edit in the open modal (most recent last) */
+let phraseUndoStack: PhraseUpdates[] = [];
+
 function openPhraseModal(phraseId: string): void {
   selectedPhrase = phrases.find(p => p.id === phraseId) || null;
   if (!selectedPhrase) return;
 
+  phraseUndoStack = [];
+  renderPhraseDetail();
+  phraseModal.hidden = false;
+}
+
+function renderPhraseDetail(): void {
+  const phrase = selectedPhrase;
+  if (!phrase) return;
+
   phraseDetail.innerHTML = `
     <div class="detail-section">
       <h4>動画</h4>
-      <p>${escapeHtml(selectedPhrase.videoTitle)}</p>
+      <p>${escapeHtml(phrase.videoTitle)}</p>
     </div>
 
-    <div class="detail-section">
-      <h4>フレーズ</h4>
-      <p class="detail-text">"${escapeHtml(selectedPhrase.originalText)}"</p>
-    </div>
+    <form class="phrase-edit-form" id="phrase-edit-form" novalidate>
+      <div class="form-field">
+        <label for="edit-originalText">フレーズ</label>
+        <textarea id="edit-originalText" name="originalText" rows="2">${escapeHtml(phrase.originalText)}</textarea>
+        <div class="field-error" data-error-for="originalText"></div>
+      </div>
 
-    <div class="detail-section">
-      <h4>時間</h4>
-      <p>${formatTimestamp(selectedPhrase.startTime)} - ${formatTimestamp(selectedPhrase.endTime)}</p>
-    </div>
+      <div class="form-field">
+        <label for="edit-translatedText">翻訳</label>
+        <textarea id="edit-translatedText" name="translatedText" rows="2">${escapeHtml(phrase.translatedText ?? '')}</textarea>
+        <div class="field-error" data-error-for="translatedText"></div>
+      </div>
+
+      <div class="form-row">
+        <div class="form-field">
+          <label for="edit-startTime">開始</label>
+          <input id="edit-startTime" name="startTime" type="text" inputmode="decimal"
+                 value="${formatPreciseTimestamp(phrase.startTime)}" placeholder="1:23.4">
+          <div class="field-error" data-error-for="startTime"></div>
+        </div>
+        <div class="form-field">
+          <label for="edit-endTime">終了</label>
+          <input id="edit-endTime" name="endTime" type="text" inputmode="decimal"
+                 value="${formatPreciseTimestamp(phrase.endTime)}" placeholder="1:25.0">
+          <div class="field-error" data-error-for="endTime"></div>
+        </div>
+      </div>
 
-    ${selectedPhrase.note ? `
-      <div class="detail-section">
-        <h4>メモ</h4>
-        <p>${escapeHtml(selectedPhrase.note)}</p>
+      <div class="form-field">
+        <label for="edit-note">メモ</label>
+        <textarea id="edit-note" name="note" rows="3">${escapeHtml(phrase.note ?? '')}</textarea>
+        <div class="field-error" data-error-for="note"></div>
       </div>
-    ` : ''}
+
+      <div class="phrase-edit-actions">
+        <span class="dirty-indicator" id="phrase-dirty" hidden>● 未保存の変更</span>
+        <button type="button" class="btn btn-secondary" data-action="undo-edit"
+                title="最後に保存した変更を取り消す">↩ 元に戻す</button>
+        <button type="button" class="btn btn-secondary" data-action="discard-edit">変更を破棄</button>
+        <button type="submit" class="btn btn-primary" data-action="save-edit" title="Ctrl+Enter">保存</button>
+      </div>
+    </form>
+
+    <div class="detail-section">
+      <h4>タグ</h4>
+      <div id="phrase-tags"></div>
+    </div>
 
     <div class="detail-section">
       <h4>グループ</h4>
       <select id="phrase-group-select">
         <option value="">なし</option>
         ${groups.map(g => `
-          <option value="${g.id}" ${g.id === selectedPhrase!.groupId ? 'selected' : ''}>
+          <option value="${g.id}" ${g.id === phrase.groupId ? 'selected' : ''}>
             ${escapeHtml(g.name)}
           </option>
         `).join('')}
@@ -443,24 +956,174 @@ function openPhraseModal(phraseId: string): void {
     </div>
   `;
 
+  const form = document.getElementById('phrase-edit-form') as HTMLFormElement;
+
+  form.addEventListener('input', updatePhraseFormState);
+
+  form.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      form.requestSubmit();
+    }
+  });
+
+  form.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    const { updates, errors, dirty } = getPhraseFormChanges();
+    if (!dirty || errors.length > 0) return;
+
+    if (await applyPhraseUpdates(updates)) {
+      renderPhraseDetail();
+    }
+  });
+
+  form.addEventListener('click', async (e) => {
+    const action = (e.target as HTMLElement).closest('[data-action]')?.getAttribute('data-action');
+    if (action === 'discard-edit') {
+      renderPhraseDetail();
+    } else if (action === 'undo-edit') {
+      await undoPhraseEdit();
+    }
+  });
+
+  // Tags are saved as soon as they change
+  const tagInput = new TagInput({
+    tags: phrase.tags,
+    suggestions: tags.map(t => t.name),
+    onChange: async (phraseTags) => {
+      await applyPhraseUpdates({ tags: phraseTags });
+    },
+  });
+  document.getElementById('phrase-tags')!.appendChild(tagInput.element);
+
   // Group change handler
   const select = document.getElementById('phrase-group-select') as HTMLSelectElement;
   select.addEventListener('change', async () => {
-    const groupId = select.value || null;
-    await chrome.runtime.sendMessage({
-      type: 'UPDATE_PHRASE',
-      payload: { id: selectedPhrase!.id, updates: { groupId } }
-    });
-    await loadPhrases();
-    renderPhrases();
+    await applyPhraseUpdates({ groupId: select.value || null });
   });
 
-  phraseModal.hidden = false;
+  updatePhraseFormState();
 }
 
-function closePhraseModal(): void {
+/**
+ * Changed form fields, validated against the saved phrase
+ */
+function getPhraseFormChanges(): { updates: PhraseUpdates; errors: PhraseFieldError[]; dirty: boolean } {
+  const form = document.getElementById('phrase-edit-form') as HTMLFormElement | null;
+  const phrase = selectedPhrase;
+  if (!form || !phrase) {
+    return { updates: {}, errors: [], dirty: false };
+  }
+
+  const changes: Record<string, unknown> = {};
+
+  for (const field of EDIT_TEXT_FIELDS) {
+    const value = (form.elements.namedItem(field) as HTMLTextAreaElement).value;
+    if (value.trim() !== (phrase[field] ?? '').trim()) {
+      changes[field] = value;
+    }
+  }
+
+  // Untouched times keep their full precision
+  for (const field of EDIT_TIME_FIELDS) {
+    const value = (form.elements.namedItem(field) as HTMLInputElement).value;
+    if (value.trim() !== formatPreciseTimestamp(phrase[field])) {
+      changes[field] = parseTimeInput(value) ?? NaN;
+    }
+  }
+
+  const { updates, errors } = validatePhraseUpdates(changes, phrase);
+  return { updates, errors, dirty: Object.keys(changes).length > 0 };
+}
+
+function updatePhraseFormState(): void {
+  const form = document.getElementById('phrase-edit-form');
+  if (!form) return;
+
+  const { errors, dirty } = getPhraseFormChanges();
+
+  form.querySelectorAll<HTMLElement>('[data-error-for]').forEach((el) => {
+    const field = el.getAttribute('data-error-for');
+    const error = errors.find(e => e.field === field);
+    el.textContent = error ? getValidationMessage(error) : '';
+    form.querySelector(`[name="${field}"]`)?.classList.toggle('invalid', Boolean(error));
+  });
+
+  (document.getElementById('phrase-dirty') as HTMLElement).hidden = !dirty;
+  (form.querySelector('[data-action="save-edit"]') as HTMLButtonElement).disabled = !dirty || errors.length > 0;
+  (form.querySelector('[data-action="discard-edit"]') as HTMLButtonElement).disabled = !dirty;
+  (form.querySelector('[data-action="undo-edit"]') as HTMLButtonElement).disabled = phraseUndoStack.length === 0;
+}
+
+function getValidationMessage(error: PhraseFieldError): string {
+  if (error.reason === 'invalid' && (EDIT_TIME_FIELDS as readonly string[]).includes(error.field)) {
+    return '「1:23.4」または秒数で入力してください';
+  }
+  return VALIDATION_MESSAGES[error.reason];
+}
+
+/**
+ * Save changes to the open phrase and refresh the list
+ * The replaced values go on the undo stack unless this is an undo.
+ */
+async function applyPhraseUpdates(updates: PhraseUpdates, recordUndo = true): Promise<boolean> {
+  const phrase = selectedPhrase;
+  if (!phrase) return false;
+
+  const previous: Record<string, unknown> = {};
+  for (const field of Object.keys(updates) as Array<keyof PhraseUpdates>) {
+    previous[field] = phrase[field] ?? null;
+  }
+
+  const response = await send('UPDATE_PHRASE', { id: phrase.id, updates });
+
+  if (!response.success) {
+    alert(`保存に失敗しました: ${describeError(response)}`);
+    return false;
+  }
+
+  if (recordUndo) {
+    phraseUndoStack.push(previous as PhraseUpdates);
+  }
+
+  const { translatedText, note, ...rest } = updates;
+  selectedPhrase = {
+    ...phrase,
+    ...rest,
+    ...(translatedText !== undefined && { translatedText: translatedText ?? undefined }),
+    ...(note !== undefined && { note: note ?? undefined }),
+  };
+
+  await Promise.all([loadTags(), loadPhrases()]);
+  renderTags();
+  renderPhrases();
+  updatePhraseFormState();
+  return true;
+}
+
+async function undoPhraseEdit(): Promise<void> {
+  const previous = phraseUndoStack.pop();
+  if (!previous) return;
+
+  if (await applyPhraseUpdates(previous, false)) {
+    renderPhraseDetail();
+  } else {
+    phraseUndoStack.push(previous);
+  }
+}
+
+/**
+ * Close the phrase modal, confirming first if there are unsaved edits
+ */
+function closePhraseModal(discardChanges = false): void {
+  if (!discardChanges && getPhraseFormChanges().dirty &&
+      !confirm('保存されていない変更があります。破棄して閉じますか？')) {
+    return;
+  }
+
   phraseModal.hidden = true;
   selectedPhrase = null;
+  phraseUndoStack = [];
 }
 
 async function playSelectedPhrase(): Promise<void> {
@@ -489,28 +1152,357 @@ async function deleteSelectedPhrase(): Promise<void> {
 
   if (!confirm('このフレーズを削除しますか？')) return;
 
-  await chrome.runtime.sendMessage({
-    type: 'DELETE_PHRASE',
-    payload: { id: selectedPhrase.id }
-  });
+  await send('DELETE_PHRASE', { id: selectedPhrase.id });
 
-  closePhraseModal();
-  await loadPhrases();
+  closePhraseModal(true);
+  await Promise.all([loadTags(), loadPhrases()]);
+  renderTags();
   renderPhrases();
 }
 
 // ============================================================
-// UTILITIES
+// LIVE SYNC
 // ============================================================
 
-function formatTimestamp(seconds: number): string {
-  const mins = Math.floor(seconds / 60);
-  const secs = Math.floor(seconds % 60);
-  return `${mins}:${secs.toString().padStart(2, '0')}`;
+/**
+ * Apply phrases saved, edited or deleted elsewhere (YouTube panel, review,
+ * another options tab). Known phrases are patched in place; a new phrase or
+ * a changed sort position refetches the loaded range instead.
+ */
+async function handlePhraseChanges(change: PhraseChangedPayload): Promise<void> {
+  if (change.reload) {
+    await loadData();
+    return;
+  }
+
+  const deletedIds = new Set(change.deletedIds);
+  let needsRefetch = !isEmptyQuery(searchQuery) && change.upserted.length > 0;
+
+  phrases = phrases.filter(phrase => !deletedIds.has(phrase.id));
+  for (const id of deletedIds) {
+    selectedPhraseIds.delete(id);
+  }
+
+  for (const updated of change.upserted) {
+    const index = phrases.findIndex(p => p.id === updated.id);
+    if (!matchesPhraseFilter(updated)) {
+      if (index !== -1) phrases.splice(index, 1);
+      selectedPhraseIds.delete(updated.id);
+    } else if (index === -1 || !keepsSortPosition(phrases[index], updated)) {
+      needsRefetch = true;
+    } else {
+      phrases[index] = updated;
+    }
+  }
+
+  syncPhraseModal(change, deletedIds);
+
+  const videosKnown = applyVideoChanges(change);
+
+  await Promise.all([
+    loadTags(),
+    videosKnown ? undefined : loadVideos(),
+    loadDueCount(),
+    needsRefetch ? loadPhrases() : undefined,
+  ]);
+  renderTags();
+
+  // The selected video's last phrase was deleted
+  if (selectedVideoId !== null && !videos.some(video => video.videoId === selectedVideoId)) {
+    await selectVideo(null);
+    return;
+  }
+  renderFilters();
+  renderPhrases();
+}
+
+/**
+ * Count newly created phrases into the video filter without a library scan
+ * Returns false when only GET_VIDEOS can tell: a deletion may leave a video
+ * with no phrases.
+ */
+function applyVideoChanges(change: PhraseChangedPayload): boolean {
+  if (change.deletedIds.length > 0) return false;
+
+  const createdIds = new Set(change.createdIds);
+  for (const phrase of change.upserted) {
+    if (!createdIds.has(phrase.id)) continue;
+
+    const video = videos.find(v => v.videoId === phrase.videoId);
+    if (!video) {
+      videos.push({
+        videoId: phrase.videoId,
+        videoTitle: phrase.videoTitle,
+        count: 1,
+        lastSavedAt: phrase.createdAt,
+      });
+      continue;
+    }
+
+    video.count++;
+    if (new Date(phrase.createdAt).getTime() > new Date(video.lastSavedAt).getTime()) {
+      video.lastSavedAt = phrase.createdAt;
+      video.videoTitle = phrase.videoTitle;
+    }
+  }
+
+  // Same order as getVideos
+  videos.sort((a, b) => b.count - a.count || a.videoTitle.localeCompare(b.videoTitle));
+  return true;
+}
+
+/**
+ * Close or refresh the detail modal if its phrase changed
+ * Unsaved edits are kept; the next save goes against the stale copy.
+ */
+function syncPhraseModal(change: PhraseChangedPayload, deletedIds: Set<string>): void {
+  if (!selectedPhrase) return;
+
+  if (deletedIds.has(selectedPhrase.id)) {
+    closePhraseModal(true);
+    return;
+  }
+
+  const updated = change.upserted.find(p => p.id === selectedPhrase?.id);
+  if (!updated || getPhraseFormChanges().dirty) return;
+
+  // Our own save already rendered this version
+  if (new Date(updated.updatedAt).getTime() === new Date(selectedPhrase.updatedAt).getTime()) return;
+
+  selectedPhrase = updated;
+  renderPhraseDetail();
+}
+
+/**
+ * Whether a phrase belongs in the list under the current filters
+ */
+function matchesPhraseFilter(phrase: Phrase): boolean {
+  const range = getCreatedRange();
+  const created = new Date(phrase.createdAt).getTime();
+
+  return (selectedGroupId === null || phrase.groupId === selectedGroupId) &&
+    (selectedTag === null || phrase.tags.includes(selectedTag)) &&
+    (selectedVideoId === null || phrase.videoId === selectedVideoId) &&
+    (range.createdFrom === undefined || created >= range.createdFrom) &&
+    (range.createdTo === undefined || created <= range.createdTo);
+}
+
+function keepsSortPosition(current: Phrase, updated: Phrase): boolean {
+  const { sortBy } = SORT_OPTIONS[sortOption];
+  return String(current[sortBy]) === String(updated[sortBy]) && current.startTime === updated.startTime;
+}
+
+/**
+ * Apply groups created, renamed or deleted elsewhere
+ */
+async function handleGroupChanges(change: GroupChangedPayload): Promise<void> {
+  if (change.reload) {
+    await loadGroups();
+  } else {
+    const deletedIds = new Set(change.deletedIds);
+    const updatedIds = new Set(change.upserted.map(group => group.id));
+    groups = [
+      ...groups.filter(group => !deletedIds.has(group.id) && !updatedIds.has(group.id)),
+      ...change.upserted,
+    ].sort((a, b) => a.order - b.order);
+  }
+
+  if (selectedGroupId !== null && !groups.some(group => group.id === selectedGroupId)) {
+    await selectGroup(null);
+  } else {
+    renderGroups();
+  }
+  renderTitle();
 }
 
-function escapeHtml(text: string): string {
-  const div = document.createElement('div');
-  div.textContent = text;
-  return div.innerHTML;
+// ============================================================
+// EXPORT / IMPORT
+// ============================================================
+
+async function exportLibrary(): Promise<void> {
+  const response = await send('EXPORT_LIBRARY');
+  if (!response.success) {
+    alert(`エクスポートに失敗しました: ${describeError(response)}`);
+    return;
+  }
+
+  const json = JSON.stringify(response.data, null, 2);
+  const date = new Date().toISOString().slice(0, 10);
+  downloadBlob(new Blob([json], { type: 'application/json' }), `subtitle-loop-library-${date}.json`);
+}
+
+async function handleImportFile(): Promise<void> {
+  const file = importFileInput.files?.[0];
+  importFileInput.value = ''; // Allow re-selecting the same file
+  if (!file) return;
+
+  let bundle: unknown;
+  try {
+    bundle = JSON.parse(await file.text());
+  } catch {
+    alert('JSONファイルを読み込めませんでした');
+    return;
+  }
+
+  const strategy = await showImportStrategyModal();
+  if (!strategy) return;
+
+  const response = await send('IMPORT_LIBRARY', { bundle, strategy });
+
+  if (!response.success) {
+    alert(`インポートに失敗しました: ${describeError(response)}`);
+    return;
+  }
+
+  const result = response.data;
+  alert(
+    `インポートが完了しました\n` +
+    `追加: ${result.added}件 / 上書き: ${result.overwritten}件 / スキップ: ${result.skipped}件\n` +
+    `新規グループ: ${result.groupsCreated}件`
+  );
+
+  await loadData();
+}
+
+async function showImportStrategyModal(): Promise<ImportStrategy | undefined> {
+  return new Promise((resolve) => {
+    const modal = document.createElement('div');
+    modal.className = 'modal-overlay';
+    modal.innerHTML = `
+      <div class="modal">
+        <div class="modal-header">
+          <h3>インポート方法</h3>
+          <button class="btn btn-icon" data-action="close">✕</button>
+        </div>
+        <div class="modal-body">
+          <div class="form-field">
+            <label>同じ動画・開始時間・テキストのフレーズが既にある場合</label>
+            <label class="radio-option">
+              <input type="radio" name="import-strategy" value="skip" checked>
+              <span>スキップ<span class="hint">既存のフレーズを残します</span></span>
+            </label>
+            <label class="radio-option">
+              <input type="radio" name="import-strategy" value="overwrite">
+              <span>上書き<span class="hint">ファイルの内容で置き換えます</span></span>
+            </label>
+            <label class="radio-option">
+              <input type="radio" name="import-strategy" value="keep-both">
+              <span>両方残す<span class="hint">コピーとして追加します</span></span>
+            </label>
+          </div>
+        </div>
+        <div class="modal-footer">
+          <button class="btn btn-secondary" data-action="close">キャンセル</button>
+          <button class="btn btn-primary" data-action="confirm">インポート</button>
+        </div>
+      </div>
+    `;
+
+    document.body.appendChild(modal);
+
+    modal.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const action = target.closest('[data-action]')?.getAttribute('data-action');
+
+      if (action === 'close' || target === modal) {
+        modal.remove();
+        resolve(undefined);
+      } else if (action === 'confirm') {
+        const checked = modal.querySelector('input[name="import-strategy"]:checked') as HTMLInputElement;
+        modal.remove();
+        resolve(checked.value as ImportStrategy);
+      }
+    });
+  });
+}
+
+// ============================================================
+// ANKI EXPORT
+// ============================================================
+
+type AnkiFormat = 'tsv' | 'apkg';
+
+async function exportAnkiDeck(): Promise<void> {
+  // Current filter: selected group or all phrases, including pages not yet scrolled to
+  const matching = nextCursor ? await loadAllPhrases() : phrases;
+  if (matching.length === 0) {
+    alert('エクスポートするフレーズがありません');
+    return;
+  }
+
+  const format = await showAnkiFormatModal(matching.length);
+  if (!format) return;
+
+  const group = groups.find(g => g.id === selectedGroupId) || null;
+  const source = { group, phrases: matching };
+  const baseName = `subtitle-loop-${group ? group.name : 'all'}`.replace(/[\\/:*?"<>|\s]+/g, '_');
+
+  try {
+    if (format === 'tsv') {
+      const tsv = buildAnkiTsv(source);
+      downloadBlob(new Blob([tsv], { type: 'text/tab-separated-values' }), `${baseName}.txt`);
+    } else {
+      const apkg = await buildAnkiPackage(source);
+      downloadBlob(apkg, `${baseName}.apkg`);
+    }
+  } catch (error) {
+    console.error('[Subtitle Loop] Anki export error:', error);
+    alert('Ankiエクスポートに失敗しました');
+  }
+}
+
+/**
+ * Every phrase matching the current filter (no paging)
+ */
+async function loadAllPhrases(): Promise<Phrase[]> {
+  const response = await send('QUERY_PHRASES', getPhraseQuery());
+  return response.success ? response.data.phrases : phrases;
+}
+
+async function showAnkiFormatModal(count: number): Promise<AnkiFormat | undefined> {
+  return new Promise((resolve) => {
+    const modal = document.createElement('div');
+    modal.className = 'modal-overlay';
+    modal.innerHTML = `
+      <div class="modal">
+        <div class="modal-header">
+          <h3>Ankiにエクスポート</h3>
+          <button class="btn btn-icon" data-action="close">✕</button>
+        </div>
+        <div class="modal-body">
+          <div class="form-field">
+            <label>${count}件のフレーズを書き出します</label>
+            <label class="radio-option">
+              <input type="radio" name="anki-format" value="apkg" checked>
+              <span>.apkg<span class="hint">ダブルクリックでAnkiに読み込めます</span></span>
+            </label>
+            <label class="radio-option">
+              <input type="radio" name="anki-format" value="tsv">
+              <span>TSV<span class="hint">Ankiの「ファイルを読み込む」で取り込みます</span></span>
+            </label>
+          </div>
+        </div>
+        <div class="modal-footer">
+          <button class="btn btn-secondary" data-action="close">キャンセル</button>
+          <button class="btn btn-primary" data-action="confirm">エクスポート</button>
+        </div>
+      </div>
+    `;
+
+    document.body.appendChild(modal);
+
+    modal.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const action = target.closest('[data-action]')?.getAttribute('data-action');
+
+      if (action === 'close' || target === modal) {
+        modal.remove();
+        resolve(undefined);
+      } else if (action === 'confirm') {
+        const checked = modal.querySelector('input[name="anki-format"]:checked') as HTMLInputElement;
+        modal.remove();
+        resolve(checked.value as AnkiFormat);
+      }
+    });
+  });
 }
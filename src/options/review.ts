@@ -0,0 +1,236 @@
+import type { Phrase, ReviewGrade } from '../types';
+import { send } from '../messaging/client';
+import { formatTimestamp, escapeHtml, describeError } from './utils';
+
+console.log('[Subtitle Loop] Review page loaded');
+
+const HIDE_TEXT_KEY = 'reviewHideText';
+
+const GRADES: { grade: ReviewGrade; label: string; key: string }[] = [
+  { grade: 'again', label: 'もう一度', key: '1' },
+  { grade: 'hard', label: '難しい', key: '2' },
+  { grade: 'good', label: '普通', key: '3' },
+  { grade: 'easy', label: '簡単', key: '4' },
+];
+
+// State
+let queue: Phrase[] = [];
+let totalCount = 0;
+let reviewedCount = 0;
+let isRevealed = false;
+let isGrading = false;
+/** Why the queue couldn't be loaded (e.g. the database is unavailable) */
+let loadError: string | null = null;
+
+// DOM Elements
+const reviewCard = document.getElementById('review-card')!;
+const progressText = document.getElementById('review-progress-text')!;
+const progressFill = document.getElementById('review-progress-fill')!;
+const hideTextCheckbox = document.getElementById('review-hide-text') as HTMLInputElement;
+
+// Initialize
+document.addEventListener('DOMContentLoaded', async () => {
+  const result = await chrome.storage.local.get(HIDE_TEXT_KEY);
+  if (typeof result[HIDE_TEXT_KEY] === 'boolean') {
+    hideTextCheckbox.checked = result[HIDE_TEXT_KEY];
+  }
+
+  setupEventListeners();
+  await loadQueue();
+  showCurrent();
+});
+
+// Stop the player loop when leaving the session
+window.addEventListener('pagehide', () => {
+  send('STOP_CLIP');
+});
+
+// ============================================================
+// DATA LOADING
+// ============================================================
+
+async function loadQueue(): Promise<void> {
+  const response = await send('GET_DUE_PHRASES');
+  if (response.success) {
+    queue = response.data;
+    totalCount = queue.length;
+  } else {
+    loadError = describeError(response);
+  }
+}
+
+// ============================================================
+// RENDERING
+// ============================================================
+
+function showCurrent(): void {
+  if (loadError) {
+    renderLoadError(loadError);
+    return;
+  }
+
+  renderProgress();
+
+  const phrase = queue[0];
+  if (!phrase) {
+    renderFinished();
+    return;
+  }
+
+  isRevealed = !hideTextCheckbox.checked;
+  renderCard(phrase);
+  playCurrent();
+}
+
+function renderProgress(): void {
+  progressText.textContent = totalCount > 0
+    ? `${reviewedCount} / ${totalCount} 件完了（残り ${queue.length} 件）`
+    : '';
+  const ratio = totalCount > 0 ? Math.min(1, reviewedCount / totalCount) : 0;
+  progressFill.style.width = `${ratio * 100}%`;
+}
+
+function renderCard(phrase: Phrase): void {
+  reviewCard.innerHTML = `
+    <div class="review-video">${escapeHtml(phrase.videoTitle)}</div>
+    <div class="review-time">
+      ${formatTimestamp(phrase.startTime)} - ${formatTimestamp(phrase.endTime)}
+    </div>
+
+    ${isRevealed ? `
+      <div class="review-text">"${escapeHtml(phrase.originalText)}"</div>
+      ${phrase.translatedText ? `<div class="review-translation">${escapeHtml(phrase.translatedText)}</div>` : ''}
+      ${phrase.note ? `<div class="review-note">📝 ${escapeHtml(phrase.note)}</div>` : ''}
+    ` : `
+      <div class="review-text review-text-hidden">聞き取ってから「表示」を押してください</div>
+    `}
+
+    <div class="review-actions">
+      <button class="btn btn-secondary" data-action="replay" title="再生 (P)">▶️ 再生</button>
+      ${isRevealed ? '' : '<button class="btn btn-primary" data-action="reveal" title="表示 (Space)">👀 表示</button>'}
+    </div>
+
+    ${isRevealed ? `
+      <div class="review-grades">
+        ${GRADES.map(({ grade, label, key }) => `
+          <button class="btn review-grade review-grade-${grade}"
+                  data-action="grade"
+                  data-grade="${grade}"
+                  title="${label} (${key})">
+            ${label} <span class="review-grade-key">${key}</span>
+          </button>
+        `).join('')}
+      </div>
+    ` : ''}
+  `;
+}
+
+function renderFinished(): void {
+  reviewCard.innerHTML = `
+    <div class="empty-state">
+      ${reviewedCount > 0
+        ? `<p>🎉 今日の復習が完了しました（${reviewedCount} 件）</p>`
+        : '<p>今日復習するフレーズはありません</p>'}
+      <p class="hint">新しく保存したフレーズはすぐに復習対象になります</p>
+    </div>
+  `;
+  send('STOP_CLIP');
+}
+
+function renderLoadError(message: string): void {
+  reviewCard.innerHTML = `
+    <div class="empty-state">
+      <p>⚠️ 復習キューを読み込めませんでした</p>
+      <p class="hint">${escapeHtml(message)}</p>
+    </div>
+  `;
+}
+
+// ============================================================
+// EVENT HANDLERS
+// ============================================================
+
+function setupEventListeners(): void {
+  reviewCard.addEventListener('click', async (e) => {
+    const target = e.target as HTMLElement;
+    const actionEl = target.closest('[data-action]') as HTMLElement | null;
+    if (!actionEl) return;
+
+    switch (actionEl.dataset.action) {
+      case 'replay':
+        playCurrent();
+        break;
+      case 'reveal':
+        reveal();
+        break;
+      case 'grade':
+        await gradeCurrent(actionEl.dataset.grade as ReviewGrade);
+        break;
+    }
+  });
+
+  hideTextCheckbox.addEventListener('change', () => {
+    chrome.storage.local.set({ [HIDE_TEXT_KEY]: hideTextCheckbox.checked });
+  });
+
+  document.addEventListener('keydown', async (e) => {
+    if (e.altKey || e.ctrlKey || e.metaKey || queue.length === 0) return;
+
+    if (e.key === ' ' && !isRevealed) {
+      e.preventDefault();
+      reveal();
+    } else if (e.key.toLowerCase() === 'p') {
+      playCurrent();
+    } else if (isRevealed) {
+      const match = GRADES.find(g => g.key === e.key);
+      if (match) await gradeCurrent(match.grade);
+    }
+  });
+}
+
+function reveal(): void {
+  const phrase = queue[0];
+  if (!phrase) return;
+
+  isRevealed = true;
+  renderCard(phrase);
+}
+
+function playCurrent(): void {
+  const phrase = queue[0];
+  if (!phrase) return;
+
+  send('PLAY_CLIP', {
+    videoId: phrase.videoId,
+    startTime: phrase.startTime,
+    endTime: phrase.endTime,
+  });
+}
+
+async function gradeCurrent(grade: ReviewGrade): Promise<void> {
+  const phrase = queue[0];
+  if (!phrase || isGrading) return;
+
+  isGrading = true;
+  try {
+    const response = await send('RECORD_REVIEW', { id: phrase.id, grade });
+
+    if (!response.success) {
+      alert(`記録に失敗しました: ${describeError(response)}`);
+      return;
+    }
+
+    queue.shift();
+
+    // Failed phrases come back at the end of this session
+    if (grade === 'again') {
+      queue.push(response.data);
+    } else {
+      reviewedCount++;
+    }
+
+    showCurrent();
+  } finally {
+    isGrading = false;
+  }
+}
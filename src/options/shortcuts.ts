@@ -0,0 +1,156 @@
+import {
+  SHORTCUT_LABELS,
+  getDefaultBindings,
+  loadShortcutBindings,
+  saveShortcutBindings,
+  bindingFromEvent,
+  formatBinding,
+  findConflicts,
+  type ShortcutAction,
+  type ShortcutBindings
+} from '../content/shortcuts';
+import { escapeHtml } from './utils';
+
+/**
+ * Shortcut settings modal
+ * Records key combos, shows conflicts, and saves to chrome.storage.sync.
+ * Open YouTube tabs pick up the new bindings immediately.
+ */
+export async function openShortcutSettings(): Promise<void> {
+  let bindings: ShortcutBindings = await loadShortcutBindings();
+  let recording: ShortcutAction | null = null;
+
+  const modal = document.createElement('div');
+  modal.className = 'modal-overlay';
+  modal.innerHTML = `
+    <div class="modal modal-wide">
+      <div class="modal-header">
+        <h3>⌨️ キーボードショートカット</h3>
+        <button class="btn btn-icon" data-action="close">✕</button>
+      </div>
+      <div class="modal-body">
+        <p class="shortcut-hint">
+          キーをクリックして新しい組み合わせを押してください（Escでキャンセル）。
+          「キー位置」をオンにすると、キーボード配列に関係なく物理的なキーの位置で判定します。
+        </p>
+        <div class="shortcut-list" data-shortcut-list></div>
+        <p class="shortcut-hint shortcut-hint-global">
+          ページにフォーカスがなくても使えるグローバルショートカットは
+          <button class="btn-link" data-action="open-commands">Chromeのショートカット設定</button>
+          で変更できます。
+        </p>
+      </div>
+      <div class="modal-footer">
+        <button class="btn btn-secondary modal-footer-left" data-action="reset">デフォルトに戻す</button>
+        <button class="btn btn-secondary" data-action="close">キャンセル</button>
+        <button class="btn btn-primary" data-action="save">保存</button>
+      </div>
+    </div>
+  `;
+
+  const list = modal.querySelector('[data-shortcut-list]') as HTMLElement;
+  const saveBtn = modal.querySelector('[data-action="save"]') as HTMLButtonElement;
+
+  const render = (): void => {
+    const conflicts = findConflicts(bindings);
+
+    list.innerHTML = (Object.keys(bindings) as ShortcutAction[]).map(action => {
+      const binding = bindings[action];
+      const warnings = conflicts
+        .filter(c => c.action === action)
+        .map(c => `<div class="shortcut-conflict ${c.conflictsWith ? 'shortcut-conflict-error' : ''}">⚠️ ${escapeHtml(c.label)}と重複</div>`)
+        .join('');
+
+      return `
+        <div class="shortcut-row">
+          <div class="shortcut-label">${SHORTCUT_LABELS[action]}${warnings}</div>
+          <button class="btn btn-secondary shortcut-key ${recording === action ? 'recording' : ''}"
+                  data-action="record" data-shortcut="${action}">
+            ${recording === action ? 'キーを押してください…' : escapeHtml(formatBinding(binding))}
+          </button>
+          <label class="shortcut-code" title="event.code で判定（配列非依存）">
+            <input type="checkbox" data-action="use-code" data-shortcut="${action}"
+                   ${binding?.useCode ? 'checked' : ''} ${binding ? '' : 'disabled'}>
+            キー位置
+          </label>
+          <button class="btn btn-icon btn-small" data-action="unbind" data-shortcut="${action}" title="割り当てを解除">✕</button>
+        </div>
+      `;
+    }).join('');
+
+    // Two actions on one key can't both work; YouTube overlaps are only warnings
+    saveBtn.disabled = conflicts.some(c => c.conflictsWith !== null);
+  };
+
+  const handleKeydown = (e: KeyboardEvent): void => {
+    if (!recording) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (e.key === 'Escape') {
+      recording = null;
+      render();
+      return;
+    }
+
+    const binding = bindingFromEvent(e, bindings[recording]?.useCode ?? false);
+    if (!binding) return; // Waiting for a non-modifier key
+
+    bindings = { ...bindings, [recording]: binding };
+    recording = null;
+    render();
+  };
+
+  const close = (): void => {
+    document.removeEventListener('keydown', handleKeydown, true);
+    modal.remove();
+  };
+
+  modal.addEventListener('click', async (e) => {
+    const target = e.target as HTMLElement;
+    const actionEl = target.closest('[data-action]') as HTMLElement | null;
+    const action = actionEl?.getAttribute('data-action');
+    const shortcut = actionEl?.getAttribute('data-shortcut') as ShortcutAction | null;
+
+    if (action === 'close' || target === modal) {
+      close();
+    } else if (action === 'record' && shortcut) {
+      recording = recording === shortcut ? null : shortcut;
+      render();
+    } else if (action === 'unbind' && shortcut) {
+      bindings = { ...bindings, [shortcut]: null };
+      recording = null;
+      render();
+    } else if (action === 'open-commands') {
+      chrome.tabs.create({ url: 'chrome://extensions/shortcuts' });
+    } else if (action === 'reset') {
+      bindings = getDefaultBindings();
+      recording = null;
+      render();
+    } else if (action === 'save') {
+      try {
+        await saveShortcutBindings(bindings);
+        close();
+      } catch (error) {
+        console.error('[Subtitle Loop] Error saving shortcuts:', error);
+        alert('ショートカットの保存に失敗しました');
+      }
+    }
+  });
+
+  modal.addEventListener('change', (e) => {
+    const target = e.target as HTMLInputElement;
+    const shortcut = target.getAttribute('data-shortcut') as ShortcutAction | null;
+    const binding = shortcut ? bindings[shortcut] : null;
+
+    if (shortcut && binding && target.getAttribute('data-action') === 'use-code') {
+      bindings = { ...bindings, [shortcut]: { ...binding, useCode: target.checked } };
+      render();
+    }
+  });
+
+  document.addEventListener('keydown', handleKeydown, true);
+  document.body.appendChild(modal);
+  render();
+}
@@ -0,0 +1,54 @@
+import type { MessageErrorCode } from '../types';
+
+// ============================================================
+// SHARED UTILITIES (options pages)
+// ============================================================
+
+/** Shown for STORAGE_DEGRADED instead of the background's error text */
+export const STORAGE_DEGRADED_MESSAGE =
+  'データベースを開けないため、この操作は現在使えません。' +
+  'YouTubeでのフレーズ保存は引き続き使え、復旧後に自動でライブラリへ追加されます。';
+
+/**
+ * Text to show the user for a failed message
+ */
+export function describeError(response: { error: string; code: MessageErrorCode }): string {
+  return response.code === 'STORAGE_DEGRADED' ? STORAGE_DEGRADED_MESSAGE : response.error;
+}
+
+export function formatTimestamp(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+export function escapeHtml(text: string): string {
+  const div = document.createElement('div');
+  div.textContent = text;
+  return div.innerHTML;
+}
+
+/**
+ * Escape text and wrap the given [start, end) ranges in <mark>
+ */
+export function highlightHtml(text: string, ranges: Array<[number, number]>): string {
+  let html = '';
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    html += escapeHtml(text.slice(cursor, start));
+    html += `<mark>${escapeHtml(text.slice(start, end))}</mark>`;
+    cursor = end;
+  }
+  return html + escapeHtml(text.slice(cursor));
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
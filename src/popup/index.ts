@@ -1,2 +1,187 @@
-// Popup script - Phase 1 placeholder
-console.log('[Subtitle Loop] Popup loaded');
+import { PLAYBACK_SPEEDS } from '../content/constants';
+import { formatTimestamp } from '../content/transcript';
+import { escapeHtml, STORAGE_DEGRADED_MESSAGE } from '../options/utils';
+import { send, sendToTab } from '../messaging/client';
+import type { TabActionPayload, TabState } from '../types';
+
+/**
+ * Toolbar popup
+ * Shows the active YouTube tab's loop state with quick controls,
+ * plus library stats and shortcuts into the library/review pages.
+ */
+
+const tabSection = document.getElementById('tab-section')!;
+const statPhrases = document.getElementById('stat-phrases')!;
+const statGroups = document.getElementById('stat-groups')!;
+const statDue = document.getElementById('stat-due')!;
+const storageNotice = document.getElementById('storage-notice')!;
+const startReviewBtn = document.getElementById('start-review') as HTMLButtonElement;
+
+let activeTabId: number | null = null;
+
+// Initialize
+document.addEventListener('DOMContentLoaded', async () => {
+  setupEventListeners();
+  await Promise.all([loadTabState(), loadStats()]);
+});
+
+// ============================================================
+// DATA LOADING
+// ============================================================
+
+/**
+ * Ask the active tab's content script for its state
+ */
+async function loadTabState(): Promise<void> {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+
+  if (!tab?.id || !isWatchUrl(tab.url)) {
+    renderEmptyState('YouTubeの動画ページを開くと、ここからループや再生速度を操作できます。');
+    return;
+  }
+
+  activeTabId = tab.id;
+
+  try {
+    const response = await sendToTab(tab.id, 'GET_TAB_STATE');
+    if (response?.success) {
+      renderTabState(response.data);
+    } else {
+      renderEmptyState('パネルを準備中です。少し待ってから開き直してください。');
+    }
+  } catch {
+    // Content script not injected (tab opened before install/update)
+    renderEmptyState('ページを再読み込みすると Subtitle Loop が使えるようになります。');
+  }
+}
+
+async function loadStats(): Promise<void> {
+  const [statsResponse, dueResponse] = await Promise.all([
+    send('GET_STATS'),
+    send('GET_DUE_PHRASES'),
+  ]);
+
+  if (statsResponse.success) {
+    statPhrases.textContent = statsResponse.data.totalPhrases.toString();
+    statGroups.textContent = statsResponse.data.totalGroups.toString();
+  }
+
+  if (dueResponse.success) {
+    statDue.textContent = dueResponse.data.length.toString();
+  }
+
+  // Library and review need IndexedDB; saving on YouTube still works
+  const isDegraded = [statsResponse, dueResponse]
+    .some(response => !response.success && response.code === 'STORAGE_DEGRADED');
+  storageNotice.hidden = !isDegraded;
+  storageNotice.querySelector('.popup-message')!.textContent = isDegraded ? `⚠️ ${STORAGE_DEGRADED_MESSAGE}` : '';
+  startReviewBtn.disabled = isDegraded;
+}
+
+function isWatchUrl(url: string | undefined): boolean {
+  if (!url) return false;
+  try {
+    const parsed = new URL(url);
+    return /(^|\.)youtube\.com$/.test(parsed.hostname) && parsed.pathname === '/watch';
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================
+// RENDERING
+// ============================================================
+
+function renderEmptyState(message: string): void {
+  tabSection.innerHTML = `<div class="popup-message">${escapeHtml(message)}</div>`;
+}
+
+function renderTabState(state: TabState): void {
+  const { loop } = state;
+  const hasRange = loop.startTime !== null && loop.endTime !== null;
+
+  let loopText = 'ループ: OFF';
+  if (hasRange) {
+    const range = `${formatTimestamp(loop.startTime!)} → ${formatTimestamp(loop.endTime!)}`;
+    loopText = loop.isActive ? `🔁 ループ中: ${range}` : `⏸ 停止中: ${range}`;
+  }
+
+  tabSection.innerHTML = `
+    <div class="video-title" title="${escapeHtml(state.title)}">${escapeHtml(state.title || state.videoId || '')}</div>
+    <div class="video-meta">
+      <span class="loop-status ${loop.isActive ? 'active' : ''}">${loopText}</span>
+      <span>💾 ${state.savedCount}件保存済み</span>
+    </div>
+
+    <div class="speed-control">
+      ${PLAYBACK_SPEEDS.map(speed => `
+        <button class="btn btn-speed ${speed === state.playbackRate ? 'active' : ''}" data-action="speed" data-speed="${speed}">
+          ${speed}x
+        </button>
+      `).join('')}
+    </div>
+
+    <div class="tab-actions">
+      <button class="btn" data-action="toggle-loop" ${hasRange ? '' : 'disabled'}>
+        ${loop.isActive ? '⏸ ループ停止' : '▶ ループ再開'}
+      </button>
+      <button class="btn" data-action="clear-loop" ${hasRange ? '' : 'disabled'}>✖ クリア</button>
+      <button class="btn" data-action="quick-save" ${state.segmentCount > 0 ? '' : 'disabled'}>💾 保存</button>
+    </div>
+  `;
+}
+
+// ============================================================
+// ACTIONS
+// ============================================================
+
+function setupEventListeners(): void {
+  document.getElementById('open-library')?.addEventListener('click', () => {
+    chrome.runtime.openOptionsPage();
+    window.close();
+  });
+
+  startReviewBtn.addEventListener('click', () => {
+    chrome.tabs.create({ url: chrome.runtime.getURL('src/options/review.html') });
+    window.close();
+  });
+
+  tabSection.addEventListener('click', async (e) => {
+    const button = (e.target as HTMLElement).closest('[data-action]') as HTMLButtonElement | null;
+    if (!button || button.disabled) return;
+
+    switch (button.dataset.action) {
+      case 'toggle-loop':
+        await sendTabAction({ action: 'toggleLoop' });
+        break;
+      case 'clear-loop':
+        await sendTabAction({ action: 'clearLoop' });
+        break;
+      case 'quick-save':
+        await sendTabAction({ action: 'quickSave' });
+        await loadStats();
+        break;
+      case 'speed':
+        await sendTabAction({ action: 'setSpeed', speed: parseFloat(button.dataset.speed || '1') });
+        break;
+    }
+  });
+}
+
+/**
+ * Run a quick control in the tab and re-render with the returned state
+ */
+async function sendTabAction(payload: TabActionPayload): Promise<void> {
+  if (activeTabId === null) return;
+
+  try {
+    const response = await sendToTab(activeTabId, 'TAB_ACTION', payload);
+
+    if (response?.success) {
+      renderTabState(response.data);
+    }
+  } catch (error) {
+    console.error('[Subtitle Loop] Popup action error:', error);
+    renderEmptyState('タブとの通信に失敗しました。ページを再読み込みしてください。');
+  }
+}
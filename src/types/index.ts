@@ -3,17 +3,21 @@
 // ============================================================
 
 /**
- * A single subtitle segment parsed from YouTube's transcript panel
+ * A single subtitle segment (from timedtext captions or the transcript panel)
  */
 export interface TranscriptSegment {
   /** Position in the transcript list (0-indexed) */
   index: number;
-  /** Start time in seconds */
+  /** Start time in seconds (millisecond precision for timedtext captions) */
   startTime: number;
+  /** End time in seconds (from caption data, else the next segment's start) */
+  endTime: number;
   /** Subtitle text content */
   text: string;
-  /** Reference to DOM element for highlighting */
-  element: HTMLElement;
+  /** Aligned text from the secondary caption track */
+  translatedText?: string;
+  /** Source DOM element (transcript panel segments only) */
+  element?: HTMLElement;
 }
 
 /**
@@ -21,8 +25,24 @@ export interface TranscriptSegment {
  */
 export interface LoopState {
   isActive: boolean;
+  /** Effective loop start in seconds (range + nudge - lead-in) */
   startTime: number | null;
+  /** Effective loop end in seconds (range + nudge + lead-out) */
   endTime: number | null;
+  /** Selected range start (segment boundary) */
+  rangeStart: number | null;
+  /** Selected range end (segment boundary) */
+  rangeEnd: number | null;
+  /** Manual start adjustment in seconds */
+  startOffset: number;
+  /** Manual end adjustment in seconds */
+  endOffset: number;
+  /** Repetitions completed since the loop was set */
+  completedRepeats: number;
+  /** Repetitions before the loop completes (0 = infinite) */
+  repeatLimit: number;
+  /** Paused between repetitions */
+  isInGap: boolean;
 }
 
 /**
@@ -34,6 +54,21 @@ export interface VideoInfo {
   title: string;
 }
 
+/**
+ * A key combination bound to a shortcut action
+ */
+export interface ShortcutBinding {
+  /** KeyboardEvent.key (layout dependent) */
+  key: string;
+  /** KeyboardEvent.code (physical key position) */
+  code: string;
+  /** Match by `code` instead of `key` (layout independent) */
+  useCode: boolean;
+  alt: boolean;
+  ctrl: boolean;
+  shift: boolean;
+}
+
 // ============================================================
 // PERSISTED TYPES (stored in IndexedDB)
 // ============================================================
@@ -62,12 +97,49 @@ export interface Phrase {
   note?: string;
   /** Group ID (null = ungrouped) */
   groupId: string | null;
+  /** Free-form labels; unlike groups, a phrase can have any number */
+  tags: string[];
+  /** SM-2 ease factor (>= 1.3) */
+  ease: number;
+  /** Current review interval in days (0 = relearning) */
+  interval: number;
+  /** Consecutive successful reviews */
+  repetitions: number;
+  /** Next scheduled review */
+  dueAt: Date;
+  /** Last review timestamp (undefined = never reviewed) */
+  lastReviewedAt?: Date;
+  /** Normalized words for full-text search (maintained by the DB layer) */
+  searchTokens?: string[];
   /** Creation timestamp */
   createdAt: Date;
   /** Last update timestamp */
   updatedAt: Date;
 }
 
+/**
+ * Self-assessed recall quality for a review
+ */
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/**
+ * A single review event (review history)
+ */
+export interface ReviewLog {
+  /** UUID v4 */
+  id: string;
+  /** Reviewed phrase ID */
+  phraseId: string;
+  /** Grade given by the user */
+  grade: ReviewGrade;
+  /** Ease factor after this review */
+  ease: number;
+  /** Interval in days after this review */
+  interval: number;
+  /** Review timestamp */
+  reviewedAt: Date;
+}
+
 /**
  * A group for organizing phrases
  */
@@ -88,31 +160,217 @@ export interface Group {
   updatedAt: Date;
 }
 
+// ============================================================
+// EXPORT / IMPORT TYPES
+// ============================================================
+
+/**
+ * Record with Date fields replaced by ISO strings (JSON form)
+ */
+export type Serialized<T> = {
+  [K in keyof T]: T[K] extends Date
+    ? string
+    : T[K] extends Date | undefined
+      ? string | undefined
+      : T[K];
+};
+
+/**
+ * Versioned JSON backup of the whole library
+ */
+export interface LibraryBundle {
+  format: 'subtitle-loop-library';
+  version: 1;
+  exportedAt: string;
+  groups: Serialized<Group>[];
+  phrases: Serialized<Phrase>[];
+  reviews: Serialized<ReviewLog>[];
+}
+
+/**
+ * How to handle an imported phrase that already exists
+ * (same videoId + startTime + text)
+ */
+export type ImportStrategy = 'skip' | 'overwrite' | 'keep-both';
+
+export interface ImportResult {
+  added: number;
+  overwritten: number;
+  skipped: number;
+  groupsCreated: number;
+}
+
+/**
+ * How a saved phrase resembles a new one
+ * - exact: same video, same start/end (within tolerance)
+ * - overlap: same video, time ranges overlap substantially
+ * - similar-text: near-identical text (any video)
+ */
+export type DuplicateKind = 'exact' | 'overlap' | 'similar-text';
+
+export interface DuplicateMatch {
+  phrase: Phrase;
+  kind: DuplicateKind;
+  /** 0-1: time overlap ratio (exact/overlap) or text similarity */
+  score: number;
+}
+
+/**
+ * What to do when saving a phrase that has duplicates
+ * - merge: fold the new phrase into `targetId` (union of range, notes, tags)
+ * - replace: overwrite `targetId`'s clip and text, keeping its review history
+ * - save-anyway: save as a separate phrase
+ */
+export type DuplicateResolution =
+  | { action: 'merge' | 'replace'; targetId: string }
+  | { action: 'save-anyway' };
+
+export interface SavePhraseResult {
+  /** Saved, merged or replaced phrase (null = held back because of duplicates) */
+  phrase: Phrase | null;
+  /** Duplicates found when no resolution was given */
+  duplicates: DuplicateMatch[];
+}
+
+/**
+ * Library-wide duplicate cluster (phrases oldest first)
+ */
+export interface DuplicateCluster {
+  kind: DuplicateKind;
+  phrases: Phrase[];
+}
+
+/**
+ * Storage usage and library size (housekeeping view)
+ */
+export interface StorageInfo {
+  /** Bytes used / available to the extension (null = estimate unsupported) */
+  usage: number | null;
+  quota: number | null;
+  /** Whether the browser has granted persistent storage (no eviction) */
+  persisted: boolean;
+  tables: {
+    phrases: number;
+    groups: number;
+    reviews: number;
+  };
+  /** Most phrases first */
+  videos: VideoPhraseCount[];
+  /** Phrases whose groupId points at a deleted group */
+  orphanedGroupRefs: number;
+}
+
 // ============================================================
 // MESSAGE TYPES (content <-> background communication)
 // ============================================================
 
-export type MessageType =
-  | 'SAVE_PHRASE'
-  | 'GET_PHRASES'
-  | 'DELETE_PHRASE'
-  | 'UPDATE_PHRASE'
-  | 'GET_GROUPS'
-  | 'CREATE_GROUP'
-  | 'UPDATE_GROUP'
-  | 'DELETE_GROUP'
-  | 'GET_STATS'
-  | 'DB_STATUS';
+/**
+ * Payload and response data of every message
+ * `payload: undefined` = the message takes no payload. Dates in response
+ * data arrive as ISO strings (messages are JSON-serialized).
+ */
+export interface MessageMap {
+  // content / popup / options -> background
+  DB_STATUS: { payload: undefined; data: DatabaseStatus };
+  SAVE_PHRASE: { payload: SavePhrasePayload; data: SavePhraseResult };
+  GET_PHRASES: { payload: GetPhrasesPayload | undefined; data: Phrase[] };
+  QUERY_PHRASES: { payload: QueryPhrasesPayload | undefined; data: PhrasePage };
+  SEARCH_PHRASES: { payload: SearchPhrasesPayload; data: Phrase[] };
+  GET_VIDEOS: { payload: undefined; data: VideoPhraseCount[] };
+  UPDATE_PHRASE: { payload: UpdatePhrasePayload; data: void };
+  DELETE_PHRASE: { payload: DeletePhrasePayload; data: void };
+  GET_GROUPS: { payload: undefined; data: Group[] };
+  CREATE_GROUP: { payload: CreateGroupPayload; data: Group };
+  UPDATE_GROUP: { payload: UpdateGroupPayload; data: void };
+  DELETE_GROUP: { payload: DeleteGroupPayload; data: void };
+  GET_TAGS: { payload: undefined; data: TagCount[] };
+  UPDATE_TAGS: { payload: UpdateTagsPayload; data: void };
+  FIND_DUPLICATES: { payload: undefined; data: DuplicateCluster[] };
+  MERGE_PHRASES: { payload: MergePhrasesPayload; data: Phrase };
+  GET_STORAGE_INFO: { payload: undefined; data: StorageInfo };
+  BULK_DELETE_PHRASES: { payload: BulkDeletePhrasesPayload; data: BulkDeleteResult };
+  CLEAN_ORPHANED_GROUPS: { payload: undefined; data: CleanOrphanedGroupsResult };
+  GET_STATS: { payload: undefined; data: StatsData };
+  GET_DUE_PHRASES: { payload: GetDuePhrasesPayload | undefined; data: Phrase[] };
+  RECORD_REVIEW: { payload: RecordReviewPayload; data: Phrase };
+  EXPORT_LIBRARY: { payload: undefined; data: LibraryBundle };
+  IMPORT_LIBRARY: { payload: ImportLibraryPayload; data: ImportResult };
+  // review page -> background -> content script (clip player)
+  PLAY_CLIP: { payload: PlayClipPayload; data: void };
+  STOP_CLIP: { payload: undefined; data: void };
+  // background -> content script
+  RUN_COMMAND: { payload: RunCommandPayload; data: void };
+  // background -> extension pages and content scripts (change broadcasts)
+  PHRASE_CHANGED: { payload: PhraseChangedPayload; data: void };
+  GROUP_CHANGED: { payload: GroupChangedPayload; data: void };
+  // popup -> content script
+  GET_TAB_STATE: { payload: undefined; data: TabState };
+  TAB_ACTION: { payload: TabActionPayload; data: TabState };
+}
+
+export type MessageType = keyof MessageMap;
+export type MessagePayload<T extends MessageType> = MessageMap[T]['payload'];
+export type MessageData<T extends MessageType> = MessageMap[T]['data'];
 
-export interface Message<T = unknown> {
-  type: MessageType;
-  payload?: T;
+/**
+ * A request (payload may be omitted when the message takes none)
+ */
+export type Message<T extends MessageType = MessageType> = {
+  [K in T]: undefined extends MessagePayload<K>
+    ? { type: K; payload?: MessagePayload<K> }
+    : { type: K; payload: MessagePayload<K> };
+}[T];
+
+/**
+ * Why a message failed
+ * - INVALID_MESSAGE: not a `{ type, payload }` object
+ * - UNKNOWN_TYPE: the receiver has no handler for the type
+ * - INVALID_PAYLOAD: the payload failed validation
+ * - NOT_READY: the receiver isn't initialized yet (content script panel)
+ * - STORAGE_DEGRADED: needs IndexedDB, which is unavailable (fallback storage mode)
+ * - HANDLER_FAILED: the handler threw (database error, phrase not found, ...)
+ */
+export type MessageErrorCode =
+  | 'INVALID_MESSAGE'
+  | 'UNKNOWN_TYPE'
+  | 'INVALID_PAYLOAD'
+  | 'NOT_READY'
+  | 'STORAGE_DEGRADED'
+  | 'HANDLER_FAILED';
+
+export type MessageResponse<T = unknown> =
+  | { success: true; data: T }
+  | { success: false; error: string; code: MessageErrorCode };
+
+/**
+ * Records written or deleted by one database transaction
+ * `reload` = too many changes to list (e.g. an import); refetch instead.
+ */
+export interface ChangeSet<T> {
+  /** Latest version of each created or updated record */
+  upserted: T[];
+  /** Ids in `upserted` that the transaction created */
+  createdIds: string[];
+  deletedIds: string[];
+  reload: boolean;
 }
 
-export interface MessageResponse<T = unknown> {
-  success: boolean;
-  data?: T;
-  error?: string;
+export type PhraseChangedPayload = ChangeSet<Phrase>;
+export type GroupChangedPayload = ChangeSet<Group>;
+
+/**
+ * Where phrases are saved
+ * - indexeddb: the library database (normal operation)
+ * - fallback: IndexedDB is unavailable; new phrases wait in chrome.storage.local
+ */
+export type StorageMode = 'indexeddb' | 'fallback';
+
+export interface DatabaseStatus {
+  isAvailable: boolean;
+  error: string | null;
+  mode: StorageMode;
+  /** Phrases queued in fallback storage, not yet in IndexedDB */
+  pendingCount: number;
 }
 
 // Specific message payloads
@@ -126,15 +384,207 @@ export interface SavePhrasePayload {
   translatedText?: string;
   note?: string;
   groupId?: string;
+  tags?: string[];
+  /** Omit to check for duplicates first (nothing is saved if any are found) */
+  resolution?: DuplicateResolution;
+}
+
+/**
+ * Fields editable through UPDATE_PHRASE (null clears an optional text field;
+ * undefined can't be used because messages are JSON-serialized)
+ */
+export interface PhraseUpdates {
+  originalText?: string;
+  translatedText?: string | null;
+  note?: string | null;
+  startTime?: number;
+  endTime?: number;
+  groupId?: string | null;
+  tags?: string[];
+}
+
+export interface UpdatePhrasePayload {
+  id: string;
+  updates: PhraseUpdates;
+}
+
+export interface DeletePhrasePayload {
+  id: string;
 }
 
 export interface GetPhrasesPayload {
-  groupId?: string | null;  // null = all, undefined = ungrouped only
+  groupId?: string | null;  // null/undefined = all groups
+  videoId?: string;
+}
+
+/** Sort keys for phrase queries ('videoTitle' sorts by title, then start time) */
+export type PhraseSortKey = 'createdAt' | 'updatedAt' | 'videoTitle' | 'startTime' | 'dueAt';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface QueryPhrasesPayload {
+  /** Filters (all combined with AND) */
+  groupId?: string;
   videoId?: string;
+  tag?: string;
+  /** Created at or after (epoch ms) */
+  createdFrom?: number;
+  /** Created at or before (epoch ms) */
+  createdTo?: number;
+  sortBy?: PhraseSortKey;       // default: createdAt
+  direction?: SortDirection;    // default: desc
+  /** Page size (default: all matches) */
   limit?: number;
-  offset?: number;
+  /** `nextCursor` from the previous page */
+  cursor?: string | null;
+}
+
+export interface PhrasePage {
+  phrases: Phrase[];
+  /** Pass as `cursor` to fetch the next page (null = no more results) */
+  nextCursor: string | null;
+}
+
+export interface SearchPhrasesPayload {
+  /** Words and/or "quoted phrases" */
+  query: string;
+  groupId?: string | null;  // null/undefined = all groups
+  videoId?: string;
+  tag?: string;
+  /** Created at or after (epoch ms) */
+  createdFrom?: number;
+  /** Created at or before (epoch ms) */
+  createdTo?: number;
+  limit?: number;
+}
+
+/**
+ * Phrase count of one video (library video filter, storage overview)
+ */
+export interface VideoPhraseCount {
+  videoId: string;
+  videoTitle: string;
+  count: number;
+  /** Most recent createdAt among its phrases */
+  lastSavedAt: Date;
+}
+
+export interface MergePhrasesPayload {
+  /** Phrase that is kept */
+  targetId: string;
+  /** Phrases folded into the target, then deleted */
+  sourceIds: string[];
+}
+
+/**
+ * Delete phrases matching every given filter (at least one is required)
+ */
+export interface BulkDeletePhrasesPayload {
+  videoIds?: string[];
+  /** Added before this time (epoch ms) */
+  createdBefore?: number;
+}
+
+export interface BulkDeleteResult {
+  deleted: number;
+}
+
+export interface CleanOrphanedGroupsResult {
+  /** Phrases moved back to "ungrouped" */
+  fixed: number;
+}
+
+export interface CreateGroupPayload {
+  name: string;
+  description?: string;
+  color: string;
+}
+
+export interface UpdateGroupPayload {
+  id: string;
+  updates: Partial<CreateGroupPayload>;
 }
 
+export interface DeleteGroupPayload {
+  id: string;
+}
+
+export interface UpdateTagsPayload {
+  phraseIds: string[];
+  add?: string[];
+  remove?: string[];
+}
+
+/**
+ * A tag in use and how many phrases have it
+ */
+export interface TagCount {
+  name: string;
+  count: number;
+}
+
+export interface GetDuePhrasesPayload {
+  limit?: number;
+}
+
+export interface RecordReviewPayload {
+  id: string;
+  grade: ReviewGrade;
+}
+
+export interface PlayClipPayload {
+  videoId: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface ImportLibraryPayload {
+  bundle: unknown;
+  strategy: ImportStrategy;
+}
+
+/**
+ * Actions registered as chrome.commands (names match manifest.json)
+ */
+export type CommandAction =
+  | 'setLoopStart'
+  | 'setLoopEnd'
+  | 'clearLoop'
+  | 'replaySegment'
+  | 'saveSegment'
+  | 'previousSegment'
+  | 'nextSegment';
+
+export interface RunCommandPayload {
+  action: CommandAction;
+}
+
+/**
+ * Player/loop snapshot of a YouTube tab (popup <- content script)
+ */
+export interface TabState {
+  videoId: string | null;
+  title: string;
+  loop: {
+    isActive: boolean;
+    startTime: number | null;
+    endTime: number | null;
+  };
+  playbackRate: number;
+  /** Phrases saved from this video */
+  savedCount: number;
+  segmentCount: number;
+}
+
+/**
+ * Quick control sent from the popup to the content script
+ */
+export type TabActionPayload =
+  | { action: 'toggleLoop' }
+  | { action: 'clearLoop' }
+  | { action: 'quickSave' }
+  | { action: 'setSpeed'; speed: number };
+
 export interface StatsData {
   totalPhrases: number;
   totalGroups: number;
@@ -11,6 +11,7 @@ export default defineConfig({
     rollupOptions: {
       input: {
         options: 'src/options/index.html',
+        review: 'src/options/review.html',
       },
     },
   },
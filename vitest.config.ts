@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Separate from vite.config.ts: the crx plugin only makes sense for builds
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+});